@@ -0,0 +1,172 @@
+"use client";
+
+import { useSession, signIn, signOut } from "next-auth/react";
+import { useState, useEffect, useCallback } from "react";
+import styles from "../page.module.css";
+import type { TagStatus } from "@/lib/kv";
+import type { AnomalyEvent } from "@/lib/store/types";
+
+export default function AdminPage() {
+  const { data: session, status } = useSession();
+  const [tags, setTags] = useState<TagStatus[]>([]);
+  const [anomalies, setAnomalies] = useState<AnomalyEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchTags = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [response, anomalyResponse] = await Promise.all([fetch("/api/admin/tags"), fetch("/api/admin/anomalies")]);
+      const data = await response.json();
+      if (data.success) {
+        setTags(data.data.tags);
+        setError(null);
+      } else {
+        setError(data.reason || data.message);
+      }
+      const anomalyData = await anomalyResponse.json();
+      if (anomalyData.success) {
+        setAnomalies(anomalyData.data.anomalies);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "알 수 없음");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session) {
+      fetchTags();
+    }
+  }, [session, fetchTags]);
+
+  // 관리자 API 호출 후 목록 갱신
+  const runAction = async (url: string, init: RequestInit, failureTitle: string) => {
+    const response = await fetch(url, init);
+    const data = await response.json();
+    if (!data.success) {
+      alert(`✗ ${failureTitle}\n${data.reason || data.message}`);
+    }
+    await fetchTags();
+  };
+
+  const reassignTag = async (tag: TagStatus) => {
+    const owner = prompt(`${tag.uid} 태그의 새 소유자 이메일`, tag.owner);
+    if (!owner || owner === tag.owner) return;
+    await runAction(`/api/admin/tags/${tag.uid}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ owner }),
+    }, "재할당 실패");
+  };
+
+  const resetTagCounter = async (tag: TagStatus) => {
+    if (!confirm(`${tag.uid} 태그의 카운터 기록(${tag.counter})을 초기화할까요?\n이미 사용된 URL도 다시 통과하게 됩니다.`)) return;
+    await runAction(`/api/admin/tags/${tag.uid}/counter`, { method: "DELETE" }, "카운터 초기화 실패");
+  };
+
+  const toggleRevocation = async (tag: TagStatus) => {
+    if (tag.revocation) {
+      if (!confirm(`${tag.uid} 태그 사용을 재개할까요?`)) return;
+      await runAction(`/api/tags/${tag.uid}/revocation`, { method: "DELETE" }, "사용 재개 실패");
+      return;
+    }
+    const reason = prompt(`${tag.uid} 태그 사용 중지 사유`);
+    if (reason === null) return;
+    await runAction(`/api/tags/${tag.uid}/revocation`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reason }),
+    }, "사용 중지 실패");
+  };
+
+  const unregisterTag = async (tag: TagStatus) => {
+    if (!confirm(`${tag.uid} 태그를 ${tag.owner} 계정에서 등록 해제할까요?`)) return;
+    await runAction(`/api/admin/tags/${tag.uid}`, { method: "DELETE" }, "등록 해제 실패");
+  };
+
+  if (status === "loading") {
+    return <div className={styles.container}><div className={styles.loading}>로딩 중...</div></div>;
+  }
+
+  if (!session) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.loginCard}>
+          <h1>관리자 로그인</h1>
+          <p>관리자 계정으로 로그인해주세요.</p>
+          <button onClick={() => signIn("google", { callbackUrl: "/admin" })} className={styles.loginButton}>Sign in with Google</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <div className={styles.userInfo}>
+          <div>
+            <div className={styles.userName}>{session.user?.name}</div>
+            <div className={styles.userEmail}>{session.user?.email}</div>
+          </div>
+        </div>
+        <button onClick={() => signOut()} className={styles.logoutButton}>로그아웃</button>
+      </div>
+      <main className={styles.main}>
+        <h1 className={styles.title}>태그 관리 (관리자)</h1>
+        {error ? (
+          <div className={`${styles.result} ${styles.error}`}>
+            <h2>✗ 목록을 불러올 수 없습니다</h2>
+            <p className={styles.reason}>{error}</p>
+          </div>
+        ) : (
+          <>
+            {anomalies.length > 0 && (
+              <div className={styles.card}>
+                <h2>최근 이상 탐지 ({anomalies.length}건)</h2>
+                <div className={styles.history}>
+                  {anomalies.map((event, index) => (
+                    <div key={index} className={`${styles.historyItem} ${styles.historyError}`}>
+                      <div className={styles.historyHeader}>
+                        <span className={styles.historyStatus}>{event.uid} ({event.action})</span>
+                        <span className={styles.historyTime}>{new Date(event.timestamp).toLocaleString()}</span>
+                      </div>
+                      <div>{event.user ?? "공개 검증"} / 카운터 {event.counter}{event.ip && ` / ${event.ip}`}</div>
+                      {event.anomalies.map((anomaly, i) => <div key={i}>{anomaly.detail}</div>)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className={styles.card}>
+              <h2>전체 태그 ({tags.length}개){loading && " - 갱신 중..."}</h2>
+              <div className={styles.tagList}>
+                {tags.map((tag) => (
+                  <div key={tag.uid} className={styles.tagItem}>
+                    {tag.nickname && <div className={styles.tagName}>{tag.nickname}</div>}
+                    <div><strong>UID:</strong> {tag.uid}</div>
+                    <div><strong>소유자:</strong> {tag.owner}</div>
+                    <div><strong>카운터:</strong> {tag.counter} / <strong>키 버전:</strong> {tag.keyVersion ?? "-"}</div>
+                    {tag.revocation && (
+                      <div className={styles.tagRevoked}>
+                        사용 중지됨 ({tag.revocation.revokedBy}, {new Date(tag.revocation.revokedAt).toLocaleString()}){tag.revocation.reason && ` - ${tag.revocation.reason}`}
+                      </div>
+                    )}
+                    {tag.transfer && <div><strong>이전 대기:</strong> {tag.transfer.to} ({new Date(tag.transfer.expiresAt).toLocaleString()}까지)</div>}
+                    <div className={styles.tagActions}>
+                      <button onClick={() => reassignTag(tag)}>재할당</button>
+                      <button onClick={() => resetTagCounter(tag)}>카운터 초기화</button>
+                      <button onClick={() => toggleRevocation(tag)}>{tag.revocation ? "사용 재개" : "사용 중지"}</button>
+                      <button onClick={() => unregisterTag(tag)}>등록 해제</button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
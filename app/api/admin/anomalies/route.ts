@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { getRecentAnomalies } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { requireAdmin } from '@/lib/roles';
+import { ANOMALY_LOG_LIMIT } from '@/lib/store/types';
+
+const DEFAULT_LIMIT = 50;
+
+// 최근 이상 탐지 기록 (전체 태그, 최신순, 관리자만)
+// ?limit=50
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > ANOMALY_LOG_LIMIT) {
+      return errorResponse('BAD_FORMAT', 'Invalid limit', `limit must be 1-${ANOMALY_LOG_LIMIT}`);
+    }
+
+    const anomalies = await getRecentAnomalies(limit);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        anomalies,
+        count: anomalies.length,
+      },
+    });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { getProductInfo, setProductInfo } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { requireAdmin } from '@/lib/roles';
+import { parseProductInfo } from '@/lib/product';
+
+type RouteContext = { params: { uid: string } };
+
+// 공개 검증 페이지의 제품 정보 조회 (관리자만)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const uid = params.uid.toUpperCase();
+    const product = await getProductInfo(uid);
+    return NextResponse.json({ success: true, data: { uid, product } });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 제품 정보 설정 ({ name, description?, imageUrl?, url?, attributes? }, 관리자만)
+// 등록되지 않은 UID에도 설정 가능
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const uid = params.uid.toUpperCase();
+    const parsed = parseProductInfo(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return errorResponse('BAD_FORMAT', 'Invalid product info', parsed.error);
+    }
+
+    console.log('[ADMIN] Setting product info:', { uid, name: parsed.product.name, by: admin.email });
+    await setProductInfo(uid, parsed.product);
+
+    return NextResponse.json({ success: true, message: 'Product info saved', data: { uid, product: parsed.product } });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 제품 정보 삭제 (관리자만)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const uid = params.uid.toUpperCase();
+    await setProductInfo(uid, null);
+
+    return NextResponse.json({ success: true, message: 'Product info removed', data: { uid } });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
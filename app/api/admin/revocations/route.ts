@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { listRevokedTags } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { requireAdmin } from '@/lib/roles';
+
+// 사용 중지된 태그 목록 (등록되지 않은 UID 포함, 관리자만)
+export async function GET() {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const revocations = await listRevokedTags();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        revocations,
+        count: revocations.length,
+      },
+    });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { listUserRoles, setUserRole } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { isSameEmail, normalizeEmail } from '@/lib/email';
+import { getAdminEmailsFromEnv, requireAdmin } from '@/lib/roles';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// 관리자 목록 (환경 변수 / 저장된 역할, 관리자만)
+export async function GET() {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const stored = await listUserRoles();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        env: getAdminEmailsFromEnv(),
+        stored,
+      },
+    });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 저장된 역할 부여 / 해제 ({ email, role: 'admin' | null }, 관리자만)
+// NTAG424_ADMIN_EMAILS에 있는 관리자는 여기서 해제할 수 없음
+export async function PUT(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const body = await request.json().catch(() => null);
+    const email = typeof body?.email === 'string' ? normalizeEmail(body.email) : '';
+    const role = body?.role;
+    if (!EMAIL_PATTERN.test(email) || (role !== 'admin' && role !== null)) {
+      return errorResponse('BAD_FORMAT', 'Invalid role update', "email must be an email address and role 'admin' or null");
+    }
+    if (role === null && isSameEmail(email, admin.email)) {
+      return errorResponse('BAD_FORMAT', 'Invalid role update', 'Administrators cannot remove their own role');
+    }
+
+    console.log('[ADMIN] Setting role:', { email, role, by: admin.email });
+    await setUserRole(email, role);
+
+    return NextResponse.json({
+      success: true,
+      message: role ? 'Role granted' : 'Role removed',
+      data: { email, role },
+    });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
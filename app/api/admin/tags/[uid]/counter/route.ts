@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { getMaxCounter, resetCounter } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { requireAdmin } from '@/lib/roles';
+import { logScan } from '@/lib/audit';
+
+// 카운터 기록 초기화 (관리자만)
+// 태그를 재설정해 카운터가 0부터 다시 시작하는 경우 등에 사용
+// 초기화 후에는 이미 사용된 URL도 다시 통과하므로 주의
+export async function DELETE(request: NextRequest, { params }: { params: { uid: string } }) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const uid = params.uid.toUpperCase();
+    const previousCounter = await getMaxCounter(uid);
+
+    console.log('[ADMIN] Resetting counter:', { uid, previousCounter, by: admin.email });
+    await resetCounter(uid);
+    await logScan(request, uid, admin.email, {
+      success: true,
+      action: 'counter-reset',
+      counter: previousCounter,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Counter reset',
+      data: { uid, previousCounter },
+    });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { cancelTagTransfer, getTagStatus, registerTag, unregisterTag } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { requireAdmin } from '@/lib/roles';
+import { logScan } from '@/lib/audit';
+import { normalizeEmail } from '@/lib/email';
+
+type RouteContext = { params: { uid: string } };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// 태그 상태 조회 (관리자만)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const uid = params.uid.toUpperCase();
+    const tag = await getTagStatus(uid);
+    if (!tag) {
+      return errorResponse('UNKNOWN_TAG', 'Tag not registered', undefined, { uid });
+    }
+
+    return NextResponse.json({ success: true, data: tag });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 태그를 다른 사용자에게 재할당 (관리자만, 소유권 이전 절차 없이 즉시)
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const uid = params.uid.toUpperCase();
+    const tag = await getTagStatus(uid);
+    if (!tag) {
+      return errorResponse('UNKNOWN_TAG', 'Tag not registered', undefined, { uid });
+    }
+
+    const body = await request.json().catch(() => null);
+    const owner = typeof body?.owner === 'string' ? normalizeEmail(body.owner) : '';
+    if (!EMAIL_PATTERN.test(owner)) {
+      return errorResponse('BAD_FORMAT', 'Invalid reassignment', 'owner must be an email address');
+    }
+
+    console.log('[ADMIN] Reassigning:', { uid, from: tag.owner, to: owner, by: admin.email });
+    await registerTag(uid, owner);
+    await cancelTagTransfer(uid);
+    await logScan(request, uid, admin.email, {
+      success: true,
+      action: 'admin-reassigned',
+      target: owner,
+      reason: `Previous owner: ${tag.owner}`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Tag reassigned',
+      data: { uid, owner, previousOwner: tag.owner },
+    });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 태그 강제 등록 해제 (관리자만)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const uid = params.uid.toUpperCase();
+    const tag = await getTagStatus(uid);
+    if (!tag) {
+      return errorResponse('UNKNOWN_TAG', 'Tag not registered', undefined, { uid });
+    }
+
+    console.log('[ADMIN] Unregistering:', { uid, owner: tag.owner, by: admin.email });
+    await unregisterTag(uid);
+    await logScan(request, uid, admin.email, {
+      success: true,
+      action: 'admin-unregistered',
+      target: tag.owner,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Tag unregistered',
+      data: { uid, previousOwner: tag.owner },
+    });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { listTagStatuses } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { requireAdmin } from '@/lib/roles';
+
+// 전체 태그 목록 (소유자 / 카운터 / 키 버전 포함, 관리자만)
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const tags = await listTagStatuses();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tags,
+        count: tags.length,
+      },
+    });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { deleteWebhook, getWebhook, getWebhookDeliveries } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { requireAdmin } from '@/lib/roles';
+import { toPublicWebhook } from '@/lib/webhooks';
+
+type RouteContext = { params: { id: string } };
+
+const RECENT_DELIVERIES = 20;
+
+// 웹훅 구독 조회 (최근 전송 기록 포함, 관리자만)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const webhook = await getWebhook(params.id);
+    if (!webhook) {
+      return errorResponse('NOT_FOUND', 'Webhook not found', undefined, { id: params.id });
+    }
+    const deliveries = await getWebhookDeliveries(RECENT_DELIVERIES, webhook.id);
+
+    return NextResponse.json({ success: true, data: { webhook: toPublicWebhook(webhook), deliveries } });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 웹훅 구독 삭제 (관리자만, 전송 기록은 유지)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const webhook = await getWebhook(params.id);
+    if (!webhook) {
+      return errorResponse('NOT_FOUND', 'Webhook not found', undefined, { id: params.id });
+    }
+
+    console.log('[ADMIN] Deleting webhook:', { id: webhook.id, url: webhook.url, by: admin.email });
+    await deleteWebhook(webhook.id);
+
+    return NextResponse.json({ success: true, message: 'Webhook deleted', data: { id: webhook.id } });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
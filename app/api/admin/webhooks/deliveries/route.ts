@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { getWebhookDeliveries } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { requireAdmin } from '@/lib/roles';
+import { WEBHOOK_DELIVERY_LOG_LIMIT } from '@/lib/store/types';
+
+const DEFAULT_LIMIT = 50;
+
+// 웹훅 전송 기록 (최신순, 관리자만)
+// ?limit=50&webhookId=...
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > WEBHOOK_DELIVERY_LOG_LIMIT) {
+      return errorResponse('BAD_FORMAT', 'Invalid limit', `limit must be 1-${WEBHOOK_DELIVERY_LOG_LIMIT}`);
+    }
+
+    const webhookId = request.nextUrl.searchParams.get('webhookId') ?? undefined;
+    const deliveries = await getWebhookDeliveries(limit, webhookId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        deliveries,
+        count: deliveries.length,
+      },
+    });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { listWebhooks, saveWebhook } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { requireAdmin } from '@/lib/roles';
+import { generateWebhookSecret, parseWebhookRequest, toPublicWebhook } from '@/lib/webhooks';
+import type { WebhookSubscription } from '@/lib/store/types';
+
+// 웹훅 구독 목록 (secret 제외, 관리자만)
+export async function GET() {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const webhooks = (await listWebhooks()).map(toPublicWebhook);
+
+    return NextResponse.json({ success: true, data: { webhooks, count: webhooks.length } });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 웹훅 구독 추가 ({ url, events? }, 관리자만)
+// 서명용 secret은 이 응답에서만 확인 가능
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(await getServerSession(authOptions));
+    if ('response' in admin) {
+      return admin.response;
+    }
+
+    const parsed = parseWebhookRequest(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return errorResponse('BAD_FORMAT', 'Invalid webhook', parsed.error);
+    }
+
+    const webhook: WebhookSubscription = {
+      id: randomUUID(),
+      url: parsed.url,
+      secret: generateWebhookSecret(),
+      events: parsed.events,
+      createdAt: new Date().toISOString(),
+      createdBy: admin.email,
+    };
+    console.log('[ADMIN] Adding webhook:', { id: webhook.id, url: webhook.url, events: webhook.events, by: admin.email });
+    await saveWebhook(webhook);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook added',
+      reason: 'Store the secret now; it is not shown again',
+      data: { webhook },
+    });
+  } catch (error) {
+    console.error('[ADMIN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { errorResponse } from '@/lib/errors';
+import { requireAdmin } from '@/lib/roles';
+import { retryDueWebhookDeliveries } from '@/lib/webhooks';
+
+/**
+ * 스케줄러 요청 확인 (Authorization: Bearer <CRON_SECRET>, Vercel Cron이 자동으로 붙임)
+ */
+function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization');
+  if (!secret || !header) {
+    return false;
+  }
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// 실패한 웹훅 전송 재시도 (스케줄러 또는 관리자)
+// 주기적으로 호출해야 재시도가 진행됨 (CRON_SECRET 필요)
+// vercel.json crons는 Hobby 플랜 제한에 맞춰 하루 한 번, 더 자주는 Pro 플랜 또는 외부 스케줄러에서 호출
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const admin = await requireAdmin(await getServerSession(authOptions));
+      if ('response' in admin) {
+        return admin.response;
+      }
+    }
+
+    const deliveries = await retryDueWebhookDeliveries();
+    const count = (status: string) => deliveries.filter((delivery) => delivery.status === status).length;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        attempted: deliveries.length,
+        delivered: count('delivered'),
+        pending: count('pending'),
+        failed: count('failed'),
+      },
+    });
+  } catch (error) {
+    console.error('[WEBHOOK] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  verifyNTAG424,
+  consumeTagCounter,
+  parseVerificationRequest,
+  resolveTagIdentity,
+  getSDMLayoutFromEnv,
+  getCryptoModeFromEnv,
+  getTagTamperSourceFromEnv,
+} from '@/lib/ntag424';
+import { getMaxCounter, getProductInfo, getTagRevocation } from '@/lib/kv';
+import { getKeyringFromEnv } from '@/lib/keys';
+import { errorResponse } from '@/lib/errors';
+import { logScan } from '@/lib/audit';
+import { getClientInfo } from '@/lib/client';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { PublicVerificationResult, toPublicStatus } from '@/lib/product';
+import { applyAnomalyPolicy, applyTamperPolicy, getTamperPolicyFromEnv, isTamperFlagged } from '@/lib/tap-policy';
+
+function publicResponse(result: Omit<PublicVerificationResult, 'checkedAt'>): NextResponse {
+  return NextResponse.json({
+    success: result.status === 'genuine',
+    data: { ...result, checkedAt: new Date().toISOString() },
+  });
+}
+
+// 공개 정품 확인 (로그인 불필요)
+// 요청 본문은 /api/verify-tag와 같음 (url, piccData + cmac, uid + ctr + cmac)
+// 카운터는 제품 정보가 등록된 태그(공개 제품)만 사용하므로 한 번 확인한 URL은 already-scanned가 됨
+// 그 외 태그(출입 / 접근 제어용)는 카운터를 사용하지 않고 저장된 카운터와 비교만 함
+// 카운터를 사용한 스캔에는 /api/verify-tag와 같은 이상 탐지 / 봉인 정책 적용
+export async function POST(request: NextRequest) {
+  try {
+    const clientLimit = await checkRateLimit('public', { ip: getClientInfo(request).ip });
+    if (!clientLimit.allowed) {
+      return rateLimitResponse(clientLimit);
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseVerificationRequest(body ?? {});
+    if ('message' in parsed) {
+      return errorResponse('BAD_FORMAT', parsed.message, parsed.reason);
+    }
+    const tagData = parsed.data;
+
+    const keyring = getKeyringFromEnv();
+    if (!keyring || keyring.length === 0) {
+      return errorResponse('CONFIGURATION', 'Server configuration error', 'AES key not set');
+    }
+
+    const identity = await resolveTagIdentity(tagData, keyring);
+    if (!identity) {
+      console.log('[PUBLIC] Could not resolve tag identity');
+      return publicResponse({ status: 'not-genuine' });
+    }
+
+    const uidLimit = await checkRateLimit('public', { uid: identity.uid });
+    if (!uidLimit.allowed) {
+      return rateLimitResponse(uidLimit);
+    }
+
+    // CMAC 검증만 먼저 수행 (카운터 사용 여부는 공개 제품인지 확인한 뒤 결정)
+    const verified = await verifyNTAG424(tagData, keyring, true, {
+      layout: getSDMLayoutFromEnv(),
+      cryptoMode: getCryptoModeFromEnv(identity.uid),
+      tagTamper: getTagTamperSourceFromEnv(),
+    });
+
+    if (!verified.valid) {
+      console.log('[PUBLIC] Verification failed:', { uid: verified.uid, code: verified.code });
+      if (verified.uid) {
+        await logScan(request, verified.uid, undefined, {
+          success: false,
+          code: verified.code,
+          reason: verified.reason,
+          counter: verified.counter,
+        });
+      }
+      return publicResponse({ status: toPublicStatus(verified.code) });
+    }
+
+    // 이후 조회는 CMAC이 일치한 키로 얻은 UID만 사용
+    if (verified.uid !== identity.uid) {
+      const verifiedLimit = await checkRateLimit('public', { uid: verified.uid });
+      if (!verifiedLimit.allowed) {
+        return rateLimitResponse(verifiedLimit);
+      }
+    }
+
+    const product = (await getProductInfo(verified.uid)) ?? undefined;
+
+    const revocation = await getTagRevocation(verified.uid);
+    if (revocation) {
+      await logScan(request, verified.uid, undefined, {
+        success: false,
+        code: 'REVOKED',
+        reason: revocation.reason,
+        counter: verified.counter,
+      });
+      return publicResponse({ status: 'revoked', product });
+    }
+
+    const previousCounter = await getMaxCounter(verified.uid);
+
+    // 공개 제품이 아니면 카운터를 사용하지 않음 (소유자의 스캔 URL을 소비하지 않도록)
+    if (!product) {
+      const used = (verified.counter ?? 0) <= previousCounter;
+      await logScan(request, verified.uid, undefined, {
+        success: !used,
+        code: used ? 'REPLAY' : undefined,
+        reason: used ? 'Counter already used' : undefined,
+        counter: verified.counter,
+      });
+      return publicResponse({ status: used ? 'already-scanned' : 'genuine' });
+    }
+
+    const result = await consumeTagCounter(verified);
+    if (!result.valid) {
+      const status = toPublicStatus(result.code);
+      console.log('[PUBLIC] Verification failed:', { uid: verified.uid, code: result.code, status });
+      await logScan(request, verified.uid, undefined, {
+        success: false,
+        code: result.code,
+        reason: result.reason,
+        counter: result.counter,
+      });
+      // 이미 사용된 URL은 CMAC 검증을 통과했으므로 제품 정보 표시
+      return publicResponse({ status, product });
+    }
+
+    const { anomalies, denial } = await applyAnomalyPolicy(request, { uid: result.uid, counter: result.counter }, previousCounter);
+    const tampered = denial ? null : await applyTamperPolicy(request, result, getTamperPolicyFromEnv());
+    if (denial || tampered) {
+      return publicResponse({ status: toPublicStatus((denial ?? tampered)!.code), product });
+    }
+
+    await logScan(request, result.uid, undefined, {
+      success: true,
+      counter: result.counter,
+      anomalies: anomalies.length > 0 ? anomalies : undefined,
+    });
+
+    return publicResponse({
+      status: 'genuine',
+      product,
+      scanCount: result.counter,
+      sealOpened: result.tamper ? isTamperFlagged(result.tamper) : undefined,
+    });
+  } catch (error) {
+    console.error('[PUBLIC] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
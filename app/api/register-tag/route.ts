@@ -1,30 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth.config';
-import { registerTag, getTagOwner, getUserTags } from '@/lib/kv';
+import { registerTag, getTagOwner, getTagRevocation, getUserTags } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { getClientInfo } from '@/lib/client';
+import { logScan } from '@/lib/audit';
+import { isSameEmail } from '@/lib/email';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
 
-// 태그 등록
+// 7바이트 UID (hex)
+const UID_PATTERN = /^[0-9A-F]{14}$/;
+
+// 태그 등록 (UID는 대문자로 정규화한 뒤 조회 / 저장)
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
     console.log('[REGISTER] Session:', session?.user?.email);
 
     if (!session?.user?.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized - Please login first' },
-        { status: 401 }
-      );
+      return errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Please login first');
     }
 
-    const body = await request.json();
-    const { uid } = body;
-    console.log('[REGISTER] Received UID:', uid);
+    const body = await request.json().catch(() => null);
+    console.log('[REGISTER] Received UID:', body?.uid);
 
-    if (!uid) {
-      return NextResponse.json(
-        { error: 'Missing required parameter: uid' },
-        { status: 400 }
-      );
+    if (!body?.uid) {
+      return errorResponse('BAD_FORMAT', 'Missing required parameter', 'uid is required');
+    }
+    const uid = typeof body.uid === 'string' ? body.uid.trim().toUpperCase() : '';
+    if (!UID_PATTERN.test(uid)) {
+      return errorResponse('BAD_FORMAT', 'Invalid UID', 'uid must be 7 bytes of hex (14 characters)');
+    }
+
+    const limit = await checkRateLimit('register', {
+      user: session.user.email,
+      ip: getClientInfo(request).ip,
+      uid,
+    });
+    if (!limit.allowed) {
+      return rateLimitResponse(limit);
+    }
+
+    // 사용 중지된 태그는 등록 불가
+    const revocation = await getTagRevocation(uid);
+    if (revocation) {
+      return errorResponse('REVOKED', 'Tag has been revoked', revocation.reason, { uid });
     }
 
     // 이미 등록된 태그인지 확인
@@ -32,22 +52,17 @@ export async function POST(request: NextRequest) {
     console.log('[REGISTER] Existing owner:', existingOwner);
 
     if (existingOwner) {
-      if (existingOwner === session.user.email) {
-        return NextResponse.json(
-          { success: false, message: 'Tag already registered to you' },
-          { status: 400 }
-        );
+      if (isSameEmail(existingOwner, session.user.email)) {
+        return errorResponse('BAD_FORMAT', 'Tag already registered', 'This tag is already registered to you', { uid });
       } else {
-        return NextResponse.json(
-          { success: false, message: 'Tag already registered to another user' },
-          { status: 403 }
-        );
+        return errorResponse('NOT_OWNER', 'Tag already registered', 'This tag is registered to another user', { uid });
       }
     }
 
     // 태그 등록
     console.log('[REGISTER] Registering:', { uid, email: session.user.email });
     await registerTag(uid, session.user.email);
+    await logScan(request, uid, session.user.email, { success: true, action: 'registered' });
 
     // 등록 직후 확인
     const verifyOwner = await getTagOwner(uid);
@@ -59,18 +74,12 @@ export async function POST(request: NextRequest) {
       data: {
         uid,
         owner: session.user.email,
-        verified: verifyOwner === session.user.email,
+        verified: isSameEmail(verifyOwner, session.user.email),
       },
     });
   } catch (error) {
     console.error('[REGISTER] Error:', error);
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
   }
 }
 
@@ -79,10 +88,7 @@ export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
     if (!session?.user?.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized - Please login first' },
-        { status: 401 }
-      );
+      return errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Please login first');
     }
 
     const tags = await getUserTags(session.user.email);
@@ -96,12 +102,6 @@ export async function GET(request: NextRequest) {
     });
   } catch (error) {
     console.error('Get tags error:', error);
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
   }
 }
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { getScanHistory, getTag } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { isAdmin } from '@/lib/roles';
+import { isSameEmail } from '@/lib/email';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// 태그 스캔 기록 조회 (소유자만, 최신순)
+// 관리자가 아니면 현재 소유자가 등록(소유권 이전 포함)한 이후의 기록만 반환
+// ?limit=20&cursor=<이전 응답의 nextCursor>
+export async function GET(request: NextRequest, { params }: { params: { uid: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Please login first');
+    }
+
+    const uid = params.uid.toUpperCase();
+    const tag = await getTag(uid);
+    if (!tag) {
+      return errorResponse('UNKNOWN_TAG', 'Tag not registered', undefined, { uid });
+    }
+    if (!isSameEmail(tag.owner, session.user.email)) {
+      return errorResponse('NOT_OWNER', 'Access denied', 'This tag is registered to another user', { uid });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const limitParam = searchParams.get('limit');
+    const cursorParam = searchParams.get('cursor');
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_PAGE_SIZE;
+    const cursor = cursorParam ? parseInt(cursorParam, 10) : undefined;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE || (cursor !== undefined && !Number.isInteger(cursor))) {
+      return errorResponse('BAD_FORMAT', 'Invalid paging parameters', `limit must be 1-${MAX_PAGE_SIZE} and cursor an integer`);
+    }
+
+    const page = await getScanHistory(uid, limit, cursor);
+
+    // 이전 소유자의 기록 (이메일, IP, User-Agent) 제외 - 최신순이므로 처음 제외된 기록 이후는 모두 이전 기록
+    const ownerSince = tag.registeredAt && !(await isAdmin(session.user.email)) ? Date.parse(tag.registeredAt) : null;
+    const events = ownerSince === null ? page.events : page.events.filter((event) => Date.parse(event.timestamp) >= ownerSince);
+    const nextCursor = events.length < page.events.length ? null : page.nextCursor;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        uid,
+        events,
+        nextCursor,
+      },
+    });
+  } catch (error) {
+    console.error('[HISTORY] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
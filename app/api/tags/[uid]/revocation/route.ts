@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { cancelTagTransfer, getTagOwner, getTagRevocation, reinstateTag, revokeTag } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { isAdmin } from '@/lib/roles';
+import { isSameEmail } from '@/lib/email';
+import { logScan } from '@/lib/audit';
+
+type RouteContext = { params: { uid: string } };
+
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * 사용 중지 관리 권한 확인 (태그 소유자 또는 관리자)
+ * 관리자는 등록되지 않은 UID도 사용 중지 가능
+ */
+async function authorize(uid: string): Promise<{ email: string; admin: boolean } | { response: NextResponse }> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return { response: errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Please login first') };
+  }
+
+  const email = session.user.email;
+  if (await isAdmin(email)) {
+    return { email, admin: true };
+  }
+
+  const owner = await getTagOwner(uid);
+  if (!owner) {
+    return { response: errorResponse('UNKNOWN_TAG', 'Tag not registered', undefined, { uid }) };
+  }
+  if (!isSameEmail(owner, email)) {
+    return { response: errorResponse('NOT_OWNER', 'Access denied', 'This tag is registered to another user', { uid }) };
+  }
+  return { email, admin: false };
+}
+
+// 사용 중지 상태 조회
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const uid = params.uid.toUpperCase();
+    const auth = await authorize(uid);
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const revocation = await getTagRevocation(uid);
+    return NextResponse.json({ success: true, data: { uid, revoked: !!revocation, revocation } });
+  } catch (error) {
+    console.error('[REVOKE] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 태그 사용 중지 ({ reason? })
+// 진행 중인 소유권 이전도 함께 취소
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const uid = params.uid.toUpperCase();
+    const auth = await authorize(uid);
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const reason = body?.reason;
+    if (reason !== undefined && (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)) {
+      return errorResponse('BAD_FORMAT', 'Invalid revocation', `reason must be a string of at most ${MAX_REASON_LENGTH} characters`);
+    }
+
+    // 관리자가 중지한 내용을 소유자가 덮어쓰지 않도록 기존 기록 유지
+    const existing = await getTagRevocation(uid);
+    if (existing && !auth.admin) {
+      return errorResponse('BAD_FORMAT', 'Tag is already revoked', existing.reason, { uid });
+    }
+
+    const revocation = await revokeTag(uid, auth.email, reason?.trim() || undefined);
+    await cancelTagTransfer(uid);
+    console.log('[REVOKE] Revoked:', revocation);
+    await logScan(request, uid, auth.email, { success: true, action: 'revoked', reason: revocation.reason });
+
+    return NextResponse.json({ success: true, message: 'Tag revoked', data: { uid, revoked: true, revocation } });
+  } catch (error) {
+    console.error('[REVOKE] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 태그 사용 재개
+// 소유자는 자신이 중지한 경우만 재개 가능 (관리자가 중지한 태그는 관리자만)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const uid = params.uid.toUpperCase();
+    const auth = await authorize(uid);
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const revocation = await getTagRevocation(uid);
+    if (!revocation) {
+      return errorResponse('BAD_FORMAT', 'Tag is not revoked', undefined, { uid });
+    }
+    if (!auth.admin && revocation.revokedBy !== auth.email) {
+      return errorResponse('FORBIDDEN', 'Access denied', 'This tag was revoked by an administrator', { uid });
+    }
+
+    await reinstateTag(uid);
+    console.log('[REVOKE] Reinstated:', { uid, by: auth.email });
+    await logScan(request, uid, auth.email, { success: true, action: 'reinstated' });
+
+    return NextResponse.json({ success: true, message: 'Tag reinstated', data: { uid, revoked: false } });
+  } catch (error) {
+    console.error('[REVOKE] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { TagDetailsUpdate, getTag, unregisterTag, updateTagDetails } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { isSameEmail } from '@/lib/email';
+import { logScan } from '@/lib/audit';
+import type { TagRecord } from '@/lib/store/types';
+
+const MAX_NICKNAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_METADATA_KEYS = 32;
+const MAX_METADATA_SIZE = 4096;
+
+type RouteContext = { params: { uid: string } };
+
+// 로그인한 소유자의 태그 조회 (실패 시 오류 응답)
+async function loadOwnedTag(uid: string): Promise<{ tag: TagRecord } | { response: NextResponse }> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return { response: errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Please login first') };
+  }
+
+  const tag = await getTag(uid);
+  if (!tag) {
+    return { response: errorResponse('UNKNOWN_TAG', 'Tag not registered', undefined, { uid }) };
+  }
+  if (!isSameEmail(tag.owner, session.user.email)) {
+    return { response: errorResponse('NOT_OWNER', 'Access denied', 'This tag is registered to another user', { uid }) };
+  }
+
+  return { tag };
+}
+
+// PATCH 요청 본문 검증 (문제가 있으면 오류 설명 반환)
+function parseUpdate(body: unknown): { update: TagDetailsUpdate } | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const { nickname, description, metadata, ...rest } = body as Record<string, unknown>;
+  const unknownFields = Object.keys(rest);
+  if (unknownFields.length > 0) {
+    return { error: `Unknown fields: ${unknownFields.join(', ')}` };
+  }
+
+  const update: TagDetailsUpdate = {};
+
+  if (nickname !== undefined) {
+    if (nickname !== null && (typeof nickname !== 'string' || nickname.length > MAX_NICKNAME_LENGTH)) {
+      return { error: `nickname must be a string of at most ${MAX_NICKNAME_LENGTH} characters` };
+    }
+    update.nickname = nickname === null || nickname.trim() === '' ? null : nickname.trim();
+  }
+
+  if (description !== undefined) {
+    if (description !== null && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+      return { error: `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+    update.description = description === null || description.trim() === '' ? null : description.trim();
+  }
+
+  if (metadata !== undefined) {
+    if (metadata !== null) {
+      if (typeof metadata !== 'object' || Array.isArray(metadata)) {
+        return { error: 'metadata must be an object' };
+      }
+      const entries = Object.entries(metadata);
+      if (entries.length > MAX_METADATA_KEYS || Buffer.byteLength(JSON.stringify(metadata), 'utf8') > MAX_METADATA_SIZE) {
+        return { error: `metadata is limited to ${MAX_METADATA_KEYS} keys and ${MAX_METADATA_SIZE} bytes` };
+      }
+      // 중첩 객체 / 배열은 허용하지 않음
+      if (entries.some(([, value]) => value !== null && typeof value === 'object')) {
+        return { error: 'metadata values must be strings, numbers, booleans or null' };
+      }
+    }
+    update.metadata = metadata as TagDetailsUpdate['metadata'];
+  }
+
+  return { update };
+}
+
+// 태그 정보 조회 (소유자만)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const result = await loadOwnedTag(params.uid.toUpperCase());
+    if ('response' in result) {
+      return result.response;
+    }
+
+    return NextResponse.json({ success: true, data: result.tag });
+  } catch (error) {
+    console.error('[TAGS] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 태그 이름 / 설명 / 메타데이터 수정 (소유자만)
+// null을 보내면 해당 필드 삭제, metadata는 전체 교체
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const result = await loadOwnedTag(params.uid.toUpperCase());
+    if ('response' in result) {
+      return result.response;
+    }
+    const { tag } = result;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('BAD_FORMAT', 'Invalid request body', 'Request body must be valid JSON');
+    }
+
+    const parsed = parseUpdate(body);
+    if ('error' in parsed) {
+      return errorResponse('BAD_FORMAT', 'Invalid tag details', parsed.error);
+    }
+
+    console.log('[TAGS] Updating:', tag.uid, Object.keys(parsed.update));
+    const details = await updateTagDetails(tag.uid, parsed.update);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Tag updated',
+      data: { uid: tag.uid, owner: tag.owner, ...details },
+    });
+  } catch (error) {
+    console.error('[TAGS] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 태그 등록 해제 (소유자만)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const result = await loadOwnedTag(params.uid.toUpperCase());
+    if ('response' in result) {
+      return result.response;
+    }
+    const { tag } = result;
+
+    console.log('[TAGS] Unregistering:', tag.uid, tag.owner);
+    await unregisterTag(tag.uid);
+    await logScan(request, tag.uid, tag.owner, { success: true, action: 'unregistered' });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Tag unregistered',
+      data: { uid: tag.uid },
+    });
+  } catch (error) {
+    console.error('[TAGS] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
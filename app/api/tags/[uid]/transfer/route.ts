@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth.config';
+import { cancelTagTransfer, getPendingTransfer, getTagOwner, startTagTransfer } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { logScan } from '@/lib/audit';
+import { isSameEmail, normalizeEmail } from '@/lib/email';
+
+type RouteContext = { params: { uid: string } };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * 소유권 이전 요청 유효 시간 (NTAG424_TRANSFER_TTL_MINUTES, 기본 24시간)
+ */
+function getTransferTTLMinutes(): number {
+  const minutes = parseInt(process.env.NTAG424_TRANSFER_TTL_MINUTES || '', 10);
+  return Number.isInteger(minutes) && minutes > 0 ? minutes : 24 * 60;
+}
+
+// 진행 중인 소유권 이전 조회 (소유자 또는 받는 사용자)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Please login first');
+    }
+
+    const uid = params.uid.toUpperCase();
+    const owner = await getTagOwner(uid);
+    if (!owner) {
+      return errorResponse('UNKNOWN_TAG', 'Tag not registered', undefined, { uid });
+    }
+
+    const transfer = await getPendingTransfer(uid);
+    if (!isSameEmail(owner, session.user.email) && !isSameEmail(transfer?.to, session.user.email)) {
+      return errorResponse('NOT_OWNER', 'Access denied', 'This tag is registered to another user', { uid });
+    }
+
+    return NextResponse.json({ success: true, data: { uid, transfer } });
+  } catch (error) {
+    console.error('[TRANSFER] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 소유권 이전 시작 (소유자만)
+// 받는 사용자가 만료 전에 로그인한 상태로 태그를 스캔하면 이전 완료
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Please login first');
+    }
+
+    const uid = params.uid.toUpperCase();
+    const owner = await getTagOwner(uid);
+    if (!owner) {
+      return errorResponse('UNKNOWN_TAG', 'Tag not registered', undefined, { uid });
+    }
+    if (!isSameEmail(owner, session.user.email)) {
+      return errorResponse('NOT_OWNER', 'Access denied', 'This tag is registered to another user', { uid });
+    }
+
+    const body = await request.json().catch(() => null);
+    const to = typeof body?.to === 'string' ? normalizeEmail(body.to) : '';
+    if (!EMAIL_PATTERN.test(to)) {
+      return errorResponse('BAD_FORMAT', 'Invalid transfer request', 'to must be an email address');
+    }
+    if (isSameEmail(to, owner)) {
+      return errorResponse('BAD_FORMAT', 'Invalid transfer request', 'Tag is already registered to this user');
+    }
+
+    const transfer = await startTagTransfer(uid, owner, to, getTransferTTLMinutes());
+    console.log('[TRANSFER] Started:', transfer);
+    await logScan(request, uid, owner, { success: true, action: 'transfer-started', target: to });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Transfer started',
+      reason: 'The recipient must tap the tag while signed in before the transfer expires',
+      data: { uid, transfer },
+    });
+  } catch (error) {
+    console.error('[TRANSFER] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// 소유권 이전 취소 (소유자) 또는 거절 (받는 사용자)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Please login first');
+    }
+
+    const uid = params.uid.toUpperCase();
+    const owner = await getTagOwner(uid);
+    if (!owner) {
+      return errorResponse('UNKNOWN_TAG', 'Tag not registered', undefined, { uid });
+    }
+
+    const transfer = await getPendingTransfer(uid);
+    if (!isSameEmail(owner, session.user.email) && !isSameEmail(transfer?.to, session.user.email)) {
+      return errorResponse('NOT_OWNER', 'Access denied', 'This tag is registered to another user', { uid });
+    }
+    if (!transfer) {
+      return errorResponse('BAD_FORMAT', 'No pending transfer', 'There is no pending transfer for this tag', { uid });
+    }
+
+    await cancelTagTransfer(uid);
+    console.log('[TRANSFER] Cancelled:', { uid, by: session.user.email });
+    await logScan(request, uid, session.user.email, { success: true, action: 'transfer-cancelled', target: transfer.to });
+
+    return NextResponse.json({ success: true, message: 'Transfer cancelled', data: { uid } });
+  } catch (error) {
+    console.error('[TRANSFER] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateIntrospectionClient,
+  getAccessTokenConfigFromEnv,
+  getIntrospectionClientsFromEnv,
+  verifyAccessToken,
+} from '@/lib/access-token';
+import { getTagOwner, getTagRevocation } from '@/lib/kv';
+import { errorResponse } from '@/lib/errors';
+import { isSameEmail } from '@/lib/email';
+import { getClientInfo } from '@/lib/client';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+
+/**
+ * 요청 본문 읽기 (RFC 7662 form 또는 JSON)
+ */
+async function readBody(request: NextRequest): Promise<{ token?: unknown; max_age?: unknown }> {
+  if (request.headers.get('content-type')?.includes('application/x-www-form-urlencoded')) {
+    const form = new URLSearchParams(await request.text());
+    return { token: form.get('token') ?? undefined, max_age: form.get('max_age') ?? undefined };
+  }
+  return (await request.json().catch(() => null)) ?? {};
+}
+
+// 접근 토큰 확인 (RFC 7662 형식 응답)
+// 등록된 클라이언트만 호출 가능 (Authorization: Basic <client_id:secret>, NTAG424_INTROSPECTION_CLIENTS)
+// max_age (초): 스캔 후 경과 시간 제한 ("N분 안에 태그를 스캔한 사용자"), 없으면 토큰 만료 시간만 확인
+// 서명이 유효해도 태그가 사용 중지되었거나 소유자가 바뀌었으면 active: false
+export async function POST(request: NextRequest) {
+  try {
+    const config = getAccessTokenConfigFromEnv();
+    if (!config) {
+      return errorResponse('CONFIGURATION', 'Server configuration error', 'Access token key not set');
+    }
+    const clients = getIntrospectionClientsFromEnv();
+    if (Object.keys(clients).length === 0) {
+      return errorResponse('CONFIGURATION', 'Server configuration error', 'Introspection clients not set');
+    }
+
+    // IP 기준 제한은 클라이언트 인증 전에 확인 (secret 대입 방지)
+    const ipLimit = await checkRateLimit('introspect', { ip: getClientInfo(request).ip });
+    if (!ipLimit.allowed) {
+      return rateLimitResponse(ipLimit);
+    }
+
+    const clientId = authenticateIntrospectionClient(request.headers.get('authorization'), clients);
+    if (!clientId) {
+      console.log('[TOKEN] Introspection client authentication failed');
+      const response = errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Client authentication required');
+      response.headers.set('WWW-Authenticate', 'Basic realm="introspect"');
+      return response;
+    }
+
+    const clientLimit = await checkRateLimit('introspect', { user: clientId });
+    if (!clientLimit.allowed) {
+      return rateLimitResponse(clientLimit);
+    }
+
+    const body = await readBody(request);
+    if (typeof body.token !== 'string' || !body.token) {
+      return errorResponse('BAD_FORMAT', 'Invalid introspection request', 'token is required');
+    }
+    const maxAge = body.max_age === undefined ? undefined : Number(body.max_age);
+    if (maxAge !== undefined && (!Number.isInteger(maxAge) || maxAge < 0)) {
+      return errorResponse('BAD_FORMAT', 'Invalid introspection request', 'max_age must be a non-negative integer');
+    }
+
+    const verification = verifyAccessToken(config, body.token);
+    if (!verification.valid) {
+      console.log('[TOKEN] Inactive token:', verification.reason);
+      return NextResponse.json({ active: false });
+    }
+
+    const { claims } = verification;
+    if (maxAge !== undefined && claims.iat < Math.floor(Date.now() / 1000) - maxAge) {
+      console.log('[TOKEN] Tap too old:', { uid: claims.uid, iat: claims.iat, maxAge });
+      return NextResponse.json({ active: false });
+    }
+
+    const [owner, revocation] = await Promise.all([getTagOwner(claims.uid), getTagRevocation(claims.uid)]);
+    if (!isSameEmail(owner, claims.sub) || revocation) {
+      console.log('[TOKEN] Tag no longer usable:', { uid: claims.uid, sub: claims.sub, revoked: !!revocation });
+      return NextResponse.json({ active: false });
+    }
+
+    return NextResponse.json({ active: true, token_type: 'Bearer', ...claims });
+  } catch (error) {
+    console.error('[TOKEN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
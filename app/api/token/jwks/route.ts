@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getAccessTokenConfigFromEnv, getJWKS } from '@/lib/access-token';
+import { errorResponse } from '@/lib/errors';
+
+// 접근 토큰 서명 검증용 공개 키 목록 (JWKS, 로그인 불필요)
+export async function GET() {
+  try {
+    const config = getAccessTokenConfigFromEnv();
+    if (!config) {
+      return errorResponse('CONFIGURATION', 'Server configuration error', 'Access token key not set');
+    }
+
+    return NextResponse.json(getJWKS(config), {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (error) {
+    console.error('[TOKEN] Error:', error);
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -1,146 +1,274 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth.config';
-import { verifyNTAG424, parseNTAG424URL } from '@/lib/ntag424';
-import { getTagOwner } from '@/lib/kv';
+import { verifyNTAG424, consumeTagCounter, parseVerificationRequest, resolveTagIdentity, getSDMLayoutFromEnv, getCryptoModeFromEnv, getTagTamperSourceFromEnv } from '@/lib/ntag424';
+import {
+  completeTagTransfer,
+  getMaxCounter,
+  getPendingTransfer,
+  getTagOwner,
+  getTagRevocation,
+} from '@/lib/kv';
+import { getKeyringFromEnv } from '@/lib/keys';
+import { errorResponse } from '@/lib/errors';
+import { logScan } from '@/lib/audit';
+import { isSameEmail } from '@/lib/email';
+import { getClientInfo } from '@/lib/client';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { applyAnomalyPolicy, applyTamperPolicy, getTamperPolicyFromEnv, isTamperFlagged } from '@/lib/tap-policy';
+import { AccessTokenConfig, getAccessTokenConfigFromEnv, signAccessToken } from '@/lib/access-token';
+
+/**
+ * 사용 중지된 태그면 REVOKED 응답 (스캔 기록 포함), 아니면 null
+ * 위조된 URL로 사용 중지 여부를 조회할 수 없도록 검증에 성공한 UID에만 사용
+ */
+async function rejectIfRevoked(
+  request: NextRequest,
+  user: string,
+  result: { uid: string; counter?: number }
+): Promise<NextResponse | null> {
+  const revocation = await getTagRevocation(result.uid);
+  if (!revocation) {
+    return null;
+  }
+
+  console.log('[VERIFY] Revoked tag:', revocation);
+  await logScan(request, result.uid, user, {
+    success: false,
+    code: 'REVOKED',
+    reason: revocation.reason,
+    counter: result.counter,
+  });
+  return errorResponse('REVOKED', 'Access denied', revocation.reason ?? 'This tag has been revoked', {
+    uid: result.uid,
+    counter: result.counter,
+    revokedAt: revocation.revokedAt,
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
     if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, message: 'Unauthorized', reason: 'Please login first' },
-        { status: 401 }
-      );
+      return errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Please login first');
+    }
+
+    // 사용자 / IP 기준 요청 제한 (복호화 전)
+    const clientLimit = await checkRateLimit('verify', { user: session.user.email, ip: getClientInfo(request).ip });
+    if (!clientLimit.allowed) {
+      return rateLimitResponse(clientLimit);
     }
 
     const body = await request.json();
-    const { url, piccData, cmac } = body;
 
-    const aesKey = process.env.NTAG424_AES_KEY;
-    if (!aesKey) {
-      return NextResponse.json(
-        { success: false, message: 'Server configuration error', reason: 'AES key not set' },
-        { status: 500 }
-      );
+    // 버전별 키 목록 (NTAG424_KEYRING, 없으면 단일 키 설정을 버전 1로 사용)
+    const keyring = getKeyringFromEnv();
+    if (!keyring || keyring.length === 0) {
+      return errorResponse('CONFIGURATION', 'Server configuration error', 'AES key not set');
     }
+    // 접근 토큰 서명 키 (없으면 토큰 발급 안 함, 잘못된 키는 태그 검증 전에 거부)
+    let accessTokenConfig: AccessTokenConfig | null;
+    try {
+      accessTokenConfig = getAccessTokenConfigFromEnv();
+    } catch (error) {
+      return errorResponse('CONFIGURATION', 'Server configuration error', error instanceof Error ? error.message : 'Invalid access token key');
+    }
+    const layout = getSDMLayoutFromEnv();
+    const tagTamper = getTagTamperSourceFromEnv();
+    // 열린 봉인 처리: reject (접근 거부) 또는 flag (응답에 경고 표시, 기본값)
+    const tamperPolicy = getTamperPolicyFromEnv();
 
-    let tagData;
-
-    if (url) {
-      tagData = parseNTAG424URL(url, aesKey);
-      if (!tagData) {
-        return NextResponse.json(
-          { success: false, message: 'Invalid NTAG424 URL format' },
-          { status: 400 }
-        );
-      }
-    } else if (piccData && cmac) {
-      tagData = { piccData, cmac };
-    } else {
-      return NextResponse.json(
-        { success: false, message: 'Missing required parameters', reason: 'url or (piccData and cmac) required' },
-        { status: 400 }
-      );
+    const parsed = parseVerificationRequest(body ?? {});
+    if ('message' in parsed) {
+      return errorResponse('BAD_FORMAT', parsed.message, parsed.reason);
     }
+    const tagData = parsed.data;
 
-    // 먼저 PICC 데이터에서 UID와 카운터만 파싱 (리플레이 검사 전)
-    const { parseNTAG424Data } = await import('@/lib/ntag424');
-    const parsedData = parseNTAG424Data(tagData.piccData, aesKey);
+    // 먼저 UID와 카운터만 추출 (리플레이 검사 전)
+    const parsedData = await resolveTagIdentity(tagData, keyring);
 
     console.log('[VERIFY] Parsed data:', parsedData);
-    console.log('[VERIFY] Raw PICC data:', tagData.piccData);
+    console.log('[VERIFY] Mirroring:', tagData.mirroring ?? 'encrypted');
 
     if (!parsedData) {
-      return NextResponse.json({
+      return errorResponse('DECRYPT_FAILED', 'Invalid tag data format', 'Could not parse tag UID and counter');
+    }
+
+    // UID 기준 요청 제한 (한 태그에 대한 CMAC 대입 방지, 검증 전에 확인)
+    const uidLimit = await checkRateLimit('verify', { uid: parsedData.uid });
+    if (!uidLimit.allowed) {
+      return rateLimitResponse(uidLimit);
+    }
+
+    // 태그별 암호화 방식 (LRP 태그 목록에 없으면 PICC 데이터 길이로 판별)
+    const cryptoMode = getCryptoModeFromEnv(parsedData.uid);
+
+    // CMAC 검증 (리플레이 검사 전)
+    // parsedData는 처음 복호화에 성공한 MetaRead 키의 값이라 키 교체 중에는 틀릴 수 있으므로
+    // 이후 소유자 / 카운터 확인은 CMAC이 일치한 키로 얻은 UID만 사용
+    const verified = await verifyNTAG424(tagData, keyring, true, { layout, cryptoMode, tagTamper }); // skipReplayCheck = true
+
+    if (!verified.valid) {
+      await logScan(request, verified.uid ?? parsedData.uid, session.user.email, {
         success: false,
-        message: 'Invalid tag data format',
-        reason: 'Could not parse PICC data',
-      }, { status: 400 });
+        code: verified.code,
+        reason: verified.reason,
+        counter: verified.counter,
+      });
+      return errorResponse(verified.code, 'Tag verification failed', verified.reason, {
+        uid: verified.uid,
+        counter: verified.counter,
+      });
+    }
+
+    if (verified.uid !== parsedData.uid) {
+      console.log('[VERIFY] Verified UID differs from pre-parsed UID:', { parsed: parsedData.uid, verified: verified.uid });
+      const verifiedLimit = await checkRateLimit('verify', { uid: verified.uid });
+      if (!verifiedLimit.allowed) {
+        return rateLimitResponse(verifiedLimit);
+      }
     }
 
     // 태그 소유자 확인 (리플레이 검사 전에 먼저 확인)
-    const owner = await getTagOwner(parsedData.uid);
-    console.log('[VERIFY] Owner lookup for UID', parsedData.uid, ':', owner);
+    const owner = await getTagOwner(verified.uid);
+    console.log('[VERIFY] Owner lookup for UID', verified.uid, ':', owner);
     console.log('[VERIFY] Current user:', session.user.email);
 
     // 미등록 태그는 리플레이 검사 없이 등록 제안
     if (!owner) {
-      // 기본 CMAC 검증만 수행
-      const result = await verifyNTAG424(tagData, aesKey, true); // skipReplayCheck = true
-
-      if (!result.valid && result.reason !== 'Replay attack detected - counter already used or invalid') {
-        return NextResponse.json({
-          success: false,
-          message: 'Tag verification failed',
-          reason: result.reason,
-          data: {
-            uid: result.uid,
-            counter: result.counter,
-          },
-        }, { status: 400 });
+      const revoked = await rejectIfRevoked(request, session.user.email, verified);
+      if (revoked) {
+        return revoked;
       }
 
+      await logScan(request, verified.uid, session.user.email, {
+        success: false,
+        code: 'UNKNOWN_TAG',
+        reason: 'Tag not registered',
+        counter: verified.counter,
+      });
+
       return NextResponse.json({
         success: false,
         needsRegistration: true,
         message: 'Tag not registered',
         reason: 'This tag is not connected to any account. Would you like to connect it?',
         data: {
-          uid: parsedData.uid,
-          counter: parsedData.counter,
+          uid: verified.uid,
+          counter: verified.counter,
+          tamper: verified.tamper,
         },
       });
     }
 
-    // 등록된 태그는 전체 검증 (리플레이 공격 포함)
-    const result = await verifyNTAG424(tagData, aesKey, false);
+    // 검증 전 최대 카운터 (이상 탐지용, 카운터 사용으로 갱신되므로 먼저 조회)
+    const previousCounter = await getMaxCounter(verified.uid);
+
+    // 등록된 태그는 카운터 사용 (리플레이 공격 검사)
+    const result = await consumeTagCounter(verified);
 
     if (!result.valid) {
-      return NextResponse.json({
+      await logScan(request, result.uid ?? verified.uid, session.user.email, {
         success: false,
-        message: 'Tag verification failed',
+        code: result.code,
         reason: result.reason,
-        data: {
-          uid: result.uid,
-          counter: result.counter,
-        },
-      }, { status: 400 });
+        counter: result.counter,
+      });
+      return errorResponse(result.code, 'Tag verification failed', result.reason, {
+        uid: result.uid,
+        counter: result.counter,
+      });
+    }
+
+    const revoked = await rejectIfRevoked(request, session.user.email, result);
+    if (revoked) {
+      return revoked;
+    }
+
+    const user = session.user.email;
+    const { anomalies, denial } = await applyAnomalyPolicy(
+      request,
+      { uid: result.uid, counter: result.counter, user, authTime: session.authTime },
+      previousCounter
+    );
+    if (denial) {
+      return errorResponse(denial.code, denial.code === 'REVOKED' ? 'Access denied' : 'Re-authentication required', denial.reason, {
+        uid: result.uid,
+        counter: result.counter ?? 0,
+        anomalies,
+      });
     }
 
     // 태그가 다른 사용자에게 등록된 경우
-    if (owner !== session.user.email) {
-      return NextResponse.json({
+    // 현재 사용자에게 진행 중인 소유권 이전이 있으면 이 스캔으로 이전 수락
+    const isOwner = isSameEmail(owner, session.user.email);
+    const transfer = !isOwner ? await getPendingTransfer(result.uid) : null;
+    const acceptsTransfer = !!transfer && isSameEmail(transfer.from, owner) && isSameEmail(transfer.to, session.user.email);
+
+    if (!isOwner && !acceptsTransfer) {
+      await logScan(request, result.uid, session.user.email, {
         success: false,
-        message: 'Access denied',
-        reason: 'This tag is already registered to another user',
-        data: {
-          uid: result.uid,
-          counter: result.counter,
-        },
-      }, { status: 403 });
+        code: 'NOT_OWNER',
+        counter: result.counter,
+      });
+      return errorResponse('NOT_OWNER', 'Access denied', 'This tag is already registered to another user', {
+        uid: result.uid,
+        counter: result.counter,
+      });
     }
 
+    // TagTamper 상태 확인 (열린 봉인 또는 인증되지 않은 상태값)
+    const tamperFlagged = isTamperFlagged(result.tamper);
+    const tampered = await applyTamperPolicy(request, { ...result, user }, tamperPolicy);
+    if (tampered) {
+      return errorResponse('TAMPERED', 'Access denied', tampered.reason, {
+        uid: result.uid,
+        counter: result.counter,
+        tamper: result.tamper,
+      });
+    }
+
+    if (acceptsTransfer) {
+      console.log('[VERIFY] Completing transfer:', { uid: result.uid, from: transfer!.from, to: transfer!.to });
+      await completeTagTransfer(transfer!);
+      await logScan(request, result.uid, session.user.email, {
+        success: true,
+        action: 'transfer-completed',
+        counter: result.counter,
+        anomalies: anomalies.length > 0 ? anomalies : undefined,
+      });
+    } else {
+      await logScan(request, result.uid, session.user.email, {
+        success: true,
+        counter: result.counter,
+        anomalies: anomalies.length > 0 ? anomalies : undefined,
+      });
+    }
+
+    const accessToken = accessTokenConfig
+      ? signAccessToken(accessTokenConfig, { uid: result.uid, counter: result.counter ?? 0, user: session.user.email })
+      : null;
+
     // 모든 검증 통과 - 자신의 태그
     return NextResponse.json({
       success: true,
-      message: 'Access granted',
+      message: acceptsTransfer ? 'Ownership transferred' : 'Access granted',
       data: {
         uid: result.uid,
         counter: result.counter,
         user: session.user.email,
+        transferred: acceptsTransfer || undefined,
+        fileData: result.fileData,
+        tamper: result.tamper,
+        tamperFlagged,
+        anomalies: anomalies.length > 0 ? anomalies : undefined,
+        accessToken: accessToken?.token,
+        accessTokenExpiresAt: accessToken ? new Date(accessToken.claims.exp * 1000).toISOString() : undefined,
         timestamp: new Date().toISOString(),
       },
     });
   } catch (error) {
     console.error('Tag verification error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        message: 'Internal server error',
-        reason: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
+    return errorResponse('INTERNAL', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
   }
 }
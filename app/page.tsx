@@ -4,16 +4,50 @@ import { useSession, signIn, signOut } from "next-auth/react";
 import { useState, useEffect, useCallback, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
 import styles from "./page.module.css";
+import type { VerificationErrorCode } from "@/lib/errors";
+import type { UserTag } from "@/lib/kv";
+import type { Anomaly } from "@/lib/anomaly";
+
+// 검증 실패 코드별 안내 문구
+const ERROR_MESSAGES: Record<VerificationErrorCode, string> = {
+  BAD_FORMAT: "태그 데이터 형식이 올바르지 않습니다.",
+  DECRYPT_FAILED: "태그 데이터를 복호화할 수 없습니다. 이 서비스용으로 설정된 태그가 아닐 수 있습니다.",
+  MAC_MISMATCH: "태그 서명이 일치하지 않습니다. 위조되었거나 변조된 URL일 수 있습니다.",
+  REPLAY: "이미 사용된 태그 URL입니다. 태그를 다시 스캔해주세요.",
+  COUNTER_REGRESSION: "이전에 스캔된 URL입니다. 태그를 다시 스캔해주세요.",
+  UNKNOWN_TAG: "등록되지 않은 태그입니다.",
+  NOT_OWNER: "다른 사용자에게 등록된 태그입니다.",
+  NOT_FOUND: "대상을 찾을 수 없습니다.",
+  REVOKED: "사용이 중지된 태그입니다.",
+  TAMPERED: "봉인이 열렸거나 봉인 상태를 확인할 수 없는 태그입니다.",
+  UNAUTHENTICATED: "로그인이 필요합니다.",
+  FORBIDDEN: "권한이 없습니다.",
+  REAUTH_REQUIRED: "평소와 다른 스캔이 감지되었습니다. 다시 로그인한 뒤 태그를 다시 스캔해주세요.",
+  RATE_LIMITED: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+  CONFIGURATION: "서버 설정 오류입니다. 관리자에게 문의해주세요.",
+  INTERNAL: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+};
 
 interface VerificationResult {
   success: boolean;
   needsRegistration?: boolean;
+  code?: VerificationErrorCode;
   message: string;
   reason?: string;
   data?: {
     uid?: string;
     counter?: number;
     user?: string;
+    transferred?: boolean;
+    fileData?: string;
+    tamper?: {
+      raw: string;
+      permanent: 'closed' | 'opened' | 'invalid';
+      current: 'closed' | 'opened' | 'invalid';
+      authenticated: boolean;
+    };
+    tamperFlagged?: boolean;
+    anomalies?: Anomaly[];
     timestamp?: string;
   };
 }
@@ -24,10 +58,18 @@ function HomeContent() {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<VerificationResult | null>(null);
   const [showRegisterDialog, setShowRegisterDialog] = useState(false);
-  const [userTags, setUserTags] = useState<string[]>([]);
+  const [userTags, setUserTags] = useState<UserTag[]>([]);
 
-  const piccData = searchParams.get('picc_data') || searchParams.get('p') || searchParams.get('enc');
+  const explicitPiccData = searchParams.get('picc_data') || searchParams.get('p');
+  const enc = searchParams.get('enc');
+  // picc_data와 함께 오는 enc는 암호화된 파일 데이터 (SDMENCFileData)
+  const piccData = explicitPiccData || enc;
+  const encFileData = explicitPiccData && enc ? enc : null;
   const cmac = searchParams.get('cmac') || searchParams.get('c');
+  // 평문 미러링 태그 (uid=...&ctr=...&cmac=...)
+  const plainUid = searchParams.get('uid');
+  const plainCtr = searchParams.get('ctr');
+  const hasTagParams = !!cmac && (!!piccData || (!!plainUid && !!plainCtr));
 
   // Debug logging
   useEffect(() => {
@@ -42,16 +84,16 @@ function HomeContent() {
   }, [session, piccData, cmac]);
 
   const verifyTag = useCallback(async () => {
-    if (!piccData || !cmac) return;
+    if (!hasTagParams) return;
     setLoading(true);
     setResult(null);
 
     try {
-      console.log('Verifying tag with:', { piccData, cmac });
       const response = await fetch("/api/verify-tag", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ piccData, cmac }),
+        // 전체 URL을 함께 보내 서버가 SDMMACInput 범위를 재구성할 수 있도록 함
+        body: JSON.stringify({ url: window.location.href, piccData, cmac, encFileData, uid: plainUid, ctr: plainCtr }),
       });
 
       const data = await response.json();
@@ -74,28 +116,28 @@ function HomeContent() {
     } finally {
       setLoading(false);
     }
-  }, [piccData, cmac]);
+  }, [hasTagParams, piccData, cmac, encFileData, plainUid, plainCtr]);
 
   // URL 파라미터 변경 시 result 초기화 (단, 인증 성공 후 파라미터 제거 시에는 유지)
   useEffect(() => {
     // 파라미터가 있을 때만 초기화 (파라미터가 없어질 때는 유지)
-    if (piccData && cmac) {
+    if (hasTagParams) {
       setResult(null);
       setShowRegisterDialog(false);
     }
-  }, [piccData, cmac]);
+  }, [hasTagParams, piccData, cmac, plainUid, plainCtr]);
 
   useEffect(() => {
-    if (piccData && cmac && session) {
+    if (hasTagParams && session) {
       verifyTag();
     }
-  }, [piccData, cmac, session, verifyTag]);
+  }, [hasTagParams, session, verifyTag]);
 
   useEffect(() => {
-    if (session && !piccData && !cmac) {
+    if (session && !hasTagParams) {
       fetchUserTags();
     }
-  }, [session, piccData, cmac]);
+  }, [session, hasTagParams]);
 
   const registerCurrentTag = async () => {
     if (!result?.data?.uid) {
@@ -142,11 +184,82 @@ function HomeContent() {
     }
   };
 
+  const renameTag = async (tag: UserTag) => {
+    const nickname = prompt("태그 이름을 입력하세요 (비우면 삭제)", tag.nickname ?? "");
+    if (nickname === null) return;
+
+    const response = await fetch(`/api/tags/${tag.uid}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ nickname }),
+    });
+    const data = await response.json();
+    if (data.success) {
+      await fetchUserTags();
+    } else {
+      alert(`✗ 태그 수정 실패\n${data.reason || data.message}`);
+    }
+  };
+
+  const transferTag = async (tag: UserTag) => {
+    const to = prompt("태그를 받을 사용자의 이메일을 입력하세요");
+    if (!to) return;
+
+    const response = await fetch(`/api/tags/${tag.uid}/transfer`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ to }),
+    });
+    const data = await response.json();
+    if (data.success) {
+      const expiresAt = new Date(data.data.transfer.expiresAt).toLocaleString();
+      alert(`✓ 소유권 이전 요청 완료\n${to} 계정으로 로그인한 상태에서 ${expiresAt}까지 태그를 스캔하면 이전됩니다.`);
+    } else {
+      alert(`✗ 소유권 이전 요청 실패\n${data.reason || data.message}`);
+    }
+  };
+
+  const toggleRevocation = async (tag: UserTag) => {
+    let init: RequestInit;
+    if (tag.revocation) {
+      if (!confirm(`${tag.nickname || tag.uid} 태그 사용을 재개할까요?`)) return;
+      init = { method: "DELETE" };
+    } else {
+      const reason = prompt("사용 중지 사유를 입력하세요 (분실, 복제 의심 등)");
+      if (reason === null) return;
+      init = {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      };
+    }
+
+    const response = await fetch(`/api/tags/${tag.uid}/revocation`, init);
+    const data = await response.json();
+    if (data.success) {
+      await fetchUserTags();
+    } else {
+      alert(`✗ 태그 상태 변경 실패\n${data.reason || data.message}`);
+    }
+  };
+
+  const removeTag = async (tag: UserTag) => {
+    if (!confirm(`${tag.nickname || tag.uid} 태그 연결을 해제할까요?`)) return;
+
+    const response = await fetch(`/api/tags/${tag.uid}`, { method: "DELETE" });
+    const data = await response.json();
+    if (data.success) {
+      await fetchUserTags();
+    } else {
+      alert(`✗ 태그 연결 해제 실패\n${data.reason || data.message}`);
+    }
+  };
+
   if (status === "loading") {
     return <div className={styles.container}><div className={styles.loading}>로딩 중...</div></div>;
   }
 
-  if ((piccData && cmac) && !session) {
+  if (hasTagParams && !session) {
     // Build callback URL with current parameters to preserve them after authentication
     const currentUrl = typeof window !== 'undefined' ? window.location.href : '/';
     return (
@@ -167,7 +280,7 @@ function HomeContent() {
   }
 
   // 태그 검증 화면: 파라미터가 있거나, 인증 성공 결과가 있을 때
-  if (((piccData && cmac) || result) && session) {
+  if ((hasTagParams || result) && session) {
     return (
       <div className={styles.container}>
         <div className={styles.header}>
@@ -180,10 +293,12 @@ function HomeContent() {
           <button onClick={() => signOut()} className={styles.logoutButton}>로그아웃</button>
         </div>
         <main className={styles.main}>
-          {piccData && cmac && (
+          {hasTagParams && (
             <div style={{padding: '10px', background: '#f0f0f0', borderRadius: '5px', marginBottom: '10px', fontSize: '12px'}}>
               <div><strong>Status:</strong> {loading ? '검증 중...' : result ? (result.success ? '성공' : '실패') : '대기 중'}</div>
-              <div><strong>piccData:</strong> {piccData?.substring(0, 20)}...</div>
+              {piccData
+                ? <div><strong>piccData:</strong> {piccData.substring(0, 20)}...</div>
+                : <div><strong>uid / ctr:</strong> {plainUid} / {plainCtr}</div>}
               <div><strong>cmac:</strong> {cmac?.substring(0, 16)}</div>
             </div>
           )}
@@ -207,13 +322,21 @@ function HomeContent() {
             <>
               {result.success ? (
                 <div className={styles.dashboard}>
-                  <h1 className={styles.title}>✓ 접근 허용</h1>
+                  <h1 className={styles.title}>{result.data?.transferred ? '✓ 소유권 이전 완료' : '✓ 접근 허용'}</h1>
                   <div className={styles.card}>
                     <h2>현재 태그 정보</h2>
                     <div className={styles.dataBox}>
                       <div><strong>Tag UID:</strong> {result.data?.uid}</div>
                       <div><strong>Counter:</strong> {result.data?.counter}</div>
+                      {result.data?.fileData && <div><strong>File Data:</strong> {result.data.fileData}</div>}
+                      {result.data?.tamper && (
+                        <div><strong>봉인 상태:</strong> {result.data.tamper.permanent} / {result.data.tamper.current}{!result.data.tamper.authenticated && ' (미인증)'}</div>
+                      )}
                     </div>
+                    {result.data?.tamperFlagged && <p className={styles.reason}>⚠ 봉인이 열렸거나 상태를 확인할 수 없습니다.</p>}
+                    {result.data?.anomalies?.map((anomaly, index) => (
+                      <p key={index} className={styles.reason}>⚠ 평소와 다른 스캔: {anomaly.detail}</p>
+                    ))}
                   </div>
                   <div className={styles.card}>
                     <h2>대시보드</h2>
@@ -229,13 +352,14 @@ function HomeContent() {
               ) : (
                 <div className={`${styles.card} ${styles.result} ${styles.error}`}>
                   <h2>✗ 접근 거부</h2>
-                  <p><strong>메시지:</strong> {result.message}</p>
+                  <p><strong>메시지:</strong> {result.code ? ERROR_MESSAGES[result.code] : result.message}</p>
                   {result.reason && <p className={styles.reason}><strong>사유:</strong> {result.reason}</p>}
                   {result.data?.uid && <p><strong>UID:</strong> {result.data.uid}</p>}
                   {result.data?.counter !== undefined && <p><strong>Counter:</strong> {result.data.counter}</p>}
+                  {result.data?.tamper && <p><strong>봉인 상태:</strong> {result.data.tamper.permanent} / {result.data.tamper.current}</p>}
                   <details style={{marginTop: '10px', fontSize: '12px'}}>
                     <summary>디버그 정보</summary>
-                    <pre style={{textAlign: 'left', overflow: 'auto'}}>{JSON.stringify({ piccData, cmac, result }, null, 2)}</pre>
+                    <pre style={{textAlign: 'left', overflow: 'auto'}}>{JSON.stringify({ piccData, plainUid, plainCtr, cmac, result }, null, 2)}</pre>
                   </details>
                 </div>
               )}
@@ -278,6 +402,7 @@ function HomeContent() {
       </div>
       <main className={styles.main}>
         <h1 className={styles.title}>내 태그 관리</h1>
+        {session.user?.isAdmin && <p className={styles.subtitle}><a href="/admin">관리자 페이지 →</a></p>}
         <div style={{padding: '10px', background: '#fff3cd', borderRadius: '5px', marginBottom: '10px', fontSize: '11px', textAlign: 'left', wordBreak: 'break-all', border: '1px solid #ffc107'}}>
           <strong>디버그 정보:</strong><br/>
           현재 URL: {typeof window !== 'undefined' ? window.location.href : 'SSR'}<br/>
@@ -289,7 +414,24 @@ function HomeContent() {
           <div className={styles.card}>
             <h2>연결된 태그 ({userTags.length}개)</h2>
             <div className={styles.tagList}>
-              {userTags.map((tag, index) => <div key={index} className={styles.tagItem}><strong>UID:</strong> {tag}</div>)}
+              {userTags.map((tag) => (
+                <div key={tag.uid} className={styles.tagItem}>
+                  {tag.nickname && <div className={styles.tagName}>{tag.nickname}</div>}
+                  <div><strong>UID:</strong> {tag.uid}</div>
+                  {tag.description && <div className={styles.tagDescription}>{tag.description}</div>}
+                  {tag.revocation && (
+                    <div className={styles.tagRevoked}>
+                      사용 중지됨 ({new Date(tag.revocation.revokedAt).toLocaleString()}){tag.revocation.reason && ` - ${tag.revocation.reason}`}
+                    </div>
+                  )}
+                  <div className={styles.tagActions}>
+                    <button onClick={() => renameTag(tag)}>이름 변경</button>
+                    <button onClick={() => transferTag(tag)}>소유권 이전</button>
+                    <button onClick={() => toggleRevocation(tag)}>{tag.revocation ? "사용 재개" : "사용 중지"}</button>
+                    <button onClick={() => removeTag(tag)}>연결 해제</button>
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
         ) : (
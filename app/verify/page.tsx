@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, useEffect, useRef, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import styles from "../page.module.css";
+import type { PublicVerificationResult, PublicVerificationStatus } from "@/lib/product";
+
+const STATUS_TEXT: Record<PublicVerificationStatus, { title: string; description: string }> = {
+  genuine: { title: "✓ 정품입니다", description: "이 제품의 태그가 정상적으로 확인되었습니다." },
+  "already-scanned": {
+    title: "⚠ 이미 확인된 링크입니다",
+    description: "정품 태그에서 나온 링크지만 이미 사용되었습니다. 복사된 링크일 수 있으니 태그를 다시 스캔해주세요.",
+  },
+  "not-genuine": { title: "✗ 정품을 확인할 수 없습니다", description: "태그 서명이 올바르지 않습니다. 위조품일 수 있습니다." },
+  revoked: { title: "✗ 사용이 중지된 태그입니다", description: "분실 또는 도난 신고된 태그입니다. 판매처에 문의해주세요." },
+  suspicious: {
+    title: "⚠ 확인이 필요한 태그입니다",
+    description: "제품 봉인이 열렸거나 비정상적인 스캔이 감지되었습니다. 판매처에 문의해주세요.",
+  },
+};
+
+function VerifyContent() {
+  const searchParams = useSearchParams();
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<PublicVerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const requested = useRef(false);
+
+  const cmac = searchParams.get("cmac") || searchParams.get("c");
+
+  useEffect(() => {
+    // 제품 정보가 등록된 태그는 검증 요청마다 카운터가 소비되므로 한 번만 요청
+    if (!cmac || requested.current) return;
+    requested.current = true;
+
+    const verify = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch("/api/public/verify", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url: window.location.href }),
+        });
+        const data = await response.json();
+        if (data.data?.status) {
+          setResult(data.data);
+        } else {
+          setError(data.reason || data.message);
+        }
+        // 결과 확인 후 URL 파라미터 제거 (새로고침 시 already-scanned 방지)
+        window.history.replaceState({}, "", "/verify");
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "알 수 없음");
+      } finally {
+        setLoading(false);
+      }
+    };
+    verify();
+  }, [cmac]);
+
+  const text = result && STATUS_TEXT[result.status];
+  const product = result?.product;
+
+  return (
+    <div className={styles.container}>
+      <main className={styles.main}>
+        <h1 className={styles.title}>정품 확인</h1>
+
+        {loading && <div className={styles.loading}>확인 중...</div>}
+
+        {!loading && !result && !error && (
+          <div className={styles.card}>
+            <p>제품의 NFC 태그를 휴대폰으로 스캔해주세요.</p>
+          </div>
+        )}
+
+        {error && (
+          <div className={`${styles.result} ${styles.error}`}>
+            <h2>✗ 확인 요청 실패</h2>
+            <p className={styles.reason}>{error}</p>
+          </div>
+        )}
+
+        {result && text && (
+          <div className={`${styles.result} ${result.status === "genuine" ? styles.success : styles.error}`}>
+            <h2>{text.title}</h2>
+            <p>{text.description}</p>
+            {result.scanCount !== undefined && <p className={styles.reason}>이 태그는 지금까지 {result.scanCount}번 스캔되었습니다.</p>}
+            {result.sealOpened && <p className={styles.reason}>⚠ 제품 봉인이 열린 것으로 확인되었습니다.</p>}
+            <p className={styles.historyTime}>{new Date(result.checkedAt).toLocaleString()}</p>
+          </div>
+        )}
+
+        {product && (
+          <div className={styles.card}>
+            {product.imageUrl && <img src={product.imageUrl} alt={product.name} className={styles.productImage} />}
+            <h2>{product.name}</h2>
+            {product.description && <p className={styles.tagDescription}>{product.description}</p>}
+            {product.attributes && (
+              <div className={styles.dataBox}>
+                {Object.entries(product.attributes).map(([key, value]) => (
+                  <div key={key}><strong>{key}:</strong> {value}</div>
+                ))}
+              </div>
+            )}
+            {product.url && <p><a href={product.url} target="_blank" rel="noopener noreferrer">제품 페이지 보기</a></p>}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function VerifyPage() {
+  return (
+    <Suspense fallback={<div style={{display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh'}}>로딩 중...</div>}>
+      <VerifyContent />
+    </Suspense>
+  );
+}
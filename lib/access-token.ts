@@ -0,0 +1,295 @@
+import { JsonWebKey, KeyObject, createHash, createPrivateKey, createPublicKey, randomUUID, sign, timingSafeEqual, verify } from 'crypto';
+
+/**
+ * 태그 스캔 성공 시 발급하는 단기 접근 토큰 (JWT)
+ * 다른 백엔드는 JWKS로 서명을 직접 검증하거나 introspection 엔드포인트에 질의
+ */
+
+export type AccessTokenAlgorithm = 'ES256' | 'RS256' | 'EdDSA';
+
+export interface AccessTokenClaims {
+  iss: string;
+  sub: string; // 사용자 이메일
+  aud?: string;
+  iat: number;
+  exp: number;
+  jti: string;
+  uid: string;
+  ctr: number;
+}
+
+export interface AccessTokenKey {
+  kid: string;
+  alg: AccessTokenAlgorithm;
+  publicKey: KeyObject;
+}
+
+export interface AccessTokenConfig {
+  signingKey: AccessTokenKey & { privateKey: KeyObject };
+  // 서명 키 + 교체 전 키 (검증 및 JWKS 공개용)
+  verificationKeys: AccessTokenKey[];
+  issuer: string;
+  audience?: string;
+  ttlSeconds: number;
+}
+
+export type AccessTokenVerification =
+  | { valid: true; claims: AccessTokenClaims }
+  | { valid: false; reason: string };
+
+const PEM_PATTERN = /-----BEGIN [A-Z ]+-----[\s\S]+?-----END [A-Z ]+-----/g;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+/**
+ * 키 종류로부터 서명 알고리즘 결정 (P-256 EC, RSA 2048비트 이상, Ed25519)
+ */
+function getAlgorithm(key: KeyObject): AccessTokenAlgorithm {
+  const details = key.asymmetricKeyDetails;
+  if (key.asymmetricKeyType === 'ec' && details?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+  if (key.asymmetricKeyType === 'rsa' && (details?.modulusLength ?? 0) >= 2048) {
+    return 'RS256';
+  }
+  if (key.asymmetricKeyType === 'ed25519') {
+    return 'EdDSA';
+  }
+  throw new Error('Access token key must be a P-256 EC, RSA (2048+ bit) or Ed25519 key');
+}
+
+/**
+ * RFC 7638 JWK thumbprint (kid로 사용)
+ */
+function getThumbprint(jwk: JsonWebKey): string {
+  const members =
+    jwk.kty === 'EC'
+      ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+      : jwk.kty === 'RSA'
+        ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+        : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+  return base64url(createHash('sha256').update(JSON.stringify(members)).digest());
+}
+
+function toAccessTokenKey(publicKey: KeyObject): AccessTokenKey {
+  return {
+    kid: getThumbprint(publicKey.export({ format: 'jwk' })),
+    alg: getAlgorithm(publicKey),
+    publicKey,
+  };
+}
+
+/**
+ * 환경 변수의 PEM 문자열 정리 (한 줄로 저장된 \n 복원)
+ */
+function readPem(value: string): string {
+  return value.replace(/\\n/g, '\n');
+}
+
+/**
+ * 환경 변수로부터 토큰 설정 생성 (서명 키가 없으면 null - 토큰 발급 안 함)
+ * - NTAG424_ACCESS_TOKEN_KEY: 서명용 개인 키 (PEM)
+ * - NTAG424_ACCESS_TOKEN_RETIRED_KEYS: 교체 전 키 (PEM 여러 개, 공개 키 또는 개인 키) - 검증만 허용
+ * - NTAG424_ACCESS_TOKEN_TTL_SECONDS: 유효 시간 (기본 300)
+ * - NTAG424_ACCESS_TOKEN_ISSUER: iss (기본 NEXTAUTH_URL)
+ * - NTAG424_ACCESS_TOKEN_AUDIENCE: aud (선택)
+ */
+export function getAccessTokenConfigFromEnv(): AccessTokenConfig | null {
+  const pem = process.env.NTAG424_ACCESS_TOKEN_KEY;
+  if (!pem) {
+    return null;
+  }
+
+  const privateKey = createPrivateKey(readPem(pem));
+  const signingKey = { ...toAccessTokenKey(createPublicKey(privateKey)), privateKey };
+
+  const retiredKeys = (readPem(process.env.NTAG424_ACCESS_TOKEN_RETIRED_KEYS || '').match(PEM_PATTERN) ?? [])
+    .map((retired) => toAccessTokenKey(createPublicKey(retired)))
+    .filter((key) => key.kid !== signingKey.kid);
+
+  const ttlSeconds = parseInt(process.env.NTAG424_ACCESS_TOKEN_TTL_SECONDS || '', 10);
+
+  return {
+    signingKey,
+    verificationKeys: [signingKey, ...retiredKeys],
+    issuer: process.env.NTAG424_ACCESS_TOKEN_ISSUER || process.env.NEXTAUTH_URL || 'ntag424',
+    audience: process.env.NTAG424_ACCESS_TOKEN_AUDIENCE || undefined,
+    ttlSeconds: Number.isInteger(ttlSeconds) && ttlSeconds > 0 ? ttlSeconds : 300,
+  };
+}
+
+function signData(alg: AccessTokenAlgorithm, data: Buffer, key: KeyObject): Buffer {
+  switch (alg) {
+    case 'ES256':
+      return sign('sha256', data, { key, dsaEncoding: 'ieee-p1363' });
+    case 'RS256':
+      return sign('sha256', data, key);
+    case 'EdDSA':
+      return sign(null, data, key);
+  }
+}
+
+function verifyData(alg: AccessTokenAlgorithm, data: Buffer, key: KeyObject, signature: Buffer): boolean {
+  switch (alg) {
+    case 'ES256':
+      return verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+    case 'RS256':
+      return verify('sha256', data, key, signature);
+    case 'EdDSA':
+      return verify(null, data, key, signature);
+  }
+}
+
+/**
+ * 접근 토큰 발급
+ */
+export function signAccessToken(
+  config: AccessTokenConfig,
+  tap: { uid: string; counter: number; user: string },
+  now = Date.now()
+): { token: string; claims: AccessTokenClaims } {
+  const iat = Math.floor(now / 1000);
+  const claims: AccessTokenClaims = {
+    iss: config.issuer,
+    sub: tap.user,
+    aud: config.audience,
+    iat,
+    exp: iat + config.ttlSeconds,
+    jti: randomUUID(),
+    uid: tap.uid,
+    ctr: tap.counter,
+  };
+
+  const { alg, kid, privateKey } = config.signingKey;
+  const signingInput = `${base64url(JSON.stringify({ alg, typ: 'JWT', kid }))}.${base64url(JSON.stringify(claims))}`;
+  const signature = signData(alg, Buffer.from(signingInput), privateKey);
+
+  return { token: `${signingInput}.${base64url(signature)}`, claims };
+}
+
+/**
+ * 접근 토큰 검증 (서명, 발급자, 대상, 만료 시간)
+ */
+export function verifyAccessToken(config: AccessTokenConfig, token: string, now = Date.now()): AccessTokenVerification {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return { valid: false, reason: 'Malformed token' };
+  }
+
+  let header: unknown;
+  let payload: unknown;
+  try {
+    header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+    payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'Malformed token' };
+  }
+  // JSON이어도 객체가 아니거나 클레임 형식이 다르면 거부 (null / 숫자 / 배열 등)
+  if (
+    !isPlainObject(header) ||
+    !isPlainObject(payload) ||
+    typeof payload.sub !== 'string' ||
+    typeof payload.uid !== 'string' ||
+    typeof payload.iat !== 'number' ||
+    typeof payload.ctr !== 'number'
+  ) {
+    return { valid: false, reason: 'Malformed token' };
+  }
+  const claims = payload as unknown as AccessTokenClaims;
+
+  const key = config.verificationKeys.find((candidate) => candidate.kid === header.kid);
+  if (!key) {
+    return { valid: false, reason: 'Unknown signing key' };
+  }
+  // 키에 맞는 알고리즘만 허용 (alg 바꿔치기 방지)
+  if (header.alg !== key.alg) {
+    return { valid: false, reason: 'Algorithm mismatch' };
+  }
+  let signatureValid: boolean;
+  try {
+    signatureValid = verifyData(key.alg, Buffer.from(`${parts[0]}.${parts[1]}`), key.publicKey, Buffer.from(parts[2], 'base64url'));
+  } catch {
+    signatureValid = false;
+  }
+  if (!signatureValid) {
+    return { valid: false, reason: 'Invalid signature' };
+  }
+
+  if (claims.iss !== config.issuer) {
+    return { valid: false, reason: 'Issuer mismatch' };
+  }
+  if (config.audience && claims.aud !== config.audience) {
+    return { valid: false, reason: 'Audience mismatch' };
+  }
+  if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(now / 1000)) {
+    return { valid: false, reason: 'Token expired' };
+  }
+
+  return { valid: true, claims };
+}
+
+/**
+ * introspection을 호출할 수 있는 클라이언트 (client_id -> secret)
+ * - NTAG424_INTROSPECTION_CLIENTS: client_id:secret 목록 (쉼표 구분), 없으면 introspection 사용 안 함
+ */
+export function getIntrospectionClientsFromEnv(): Record<string, string> {
+  const clients: Record<string, string> = {};
+  for (const entry of (process.env.NTAG424_INTROSPECTION_CLIENTS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    const clientId = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (separator > 0 && clientId && secret) {
+      clients[clientId] = secret;
+    }
+  }
+  return clients;
+}
+
+/**
+ * HTTP Basic 클라이언트 인증 (RFC 7662 2.1, RFC 6749 client_secret_basic)
+ * 성공하면 client_id, 실패하면 null
+ */
+export function authenticateIntrospectionClient(authorization: string | null, clients: Record<string, string>): string | null {
+  const match = authorization?.match(/^Basic\s+([A-Za-z0-9+/=]+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const credentials = Buffer.from(match[1], 'base64').toString('utf8');
+  const separator = credentials.indexOf(':');
+  if (separator < 0) {
+    return null;
+  }
+  let clientId: string;
+  let secret: string;
+  try {
+    clientId = decodeURIComponent(credentials.slice(0, separator));
+    secret = decodeURIComponent(credentials.slice(separator + 1));
+  } catch {
+    return null;
+  }
+
+  const expected = Object.prototype.hasOwnProperty.call(clients, clientId) ? Buffer.from(clients[clientId]) : null;
+  const actual = Buffer.from(secret);
+  return expected && expected.length === actual.length && timingSafeEqual(expected, actual) ? clientId : null;
+}
+
+/**
+ * 공개 키 목록 (JWKS)
+ */
+export function getJWKS(config: AccessTokenConfig): { keys: JsonWebKey[] } {
+  return {
+    keys: config.verificationKeys.map(({ kid, alg, publicKey }) => ({
+      ...publicKey.export({ format: 'jwk' }),
+      kid,
+      alg,
+      use: 'sig',
+    })),
+  };
+}
@@ -0,0 +1,135 @@
+import type { VerificationErrorCode } from './errors';
+import type { ScanEvent } from './store/types';
+
+/**
+ * 카운터 / 스캔 속도 이상 탐지 (복제 의심)
+ * - counter-gap: 마지막 카운터보다 지나치게 큰 카운터 (다른 곳에서 여러 번 읽힌 태그)
+ * - velocity: 짧은 시간 안에 다른 사용자 / 다른 IP에서 스캔
+ */
+
+export type AnomalyType = 'counter-gap' | 'velocity';
+
+// 이상 탐지 시 조치 (뒤로 갈수록 강함)
+// warn: 응답에 표시만, reauth: 최근 로그인한 세션만 허용, suspend: 태그 사용 중지
+export type AnomalyAction = 'warn' | 'reauth' | 'suspend';
+
+const ACTION_SEVERITY: Record<AnomalyAction, number> = { warn: 0, reauth: 1, suspend: 2 };
+
+export interface Anomaly {
+  type: AnomalyType;
+  action: AnomalyAction;
+  detail: string;
+}
+
+export interface AnomalyPolicy {
+  // 허용하는 최대 카운터 증가폭 (0이면 검사 안 함)
+  counterGap: { max: number; action: AnomalyAction };
+  // 다른 세션의 스캔을 의심하는 시간 (초, 0이면 검사 안 함)
+  velocity: { windowSeconds: number; action: AnomalyAction };
+  // reauth 조치에서 허용하는 로그인 후 경과 시간 (초)
+  reauthMaxAgeSeconds: number;
+}
+
+/**
+ * 이번 스캔 정보 (검증을 통과한 태그 기준)
+ * previousCounter: 검증 전 저장되어 있던 최대 카운터 (처음 스캔이면 0)
+ * recentScans: 태그의 최근 스캔 기록 (최신순)
+ * user: 로그인하지 않은 공개 검증은 undefined
+ */
+export interface TapContext {
+  counter: number;
+  previousCounter: number;
+  user?: string;
+  ip?: string;
+  timestamp: number;
+  recentScans: ScanEvent[];
+}
+
+// 암호 검증은 통과했지만 접근이 거부된 경우 (실제 태그 스캔으로 간주)
+const VERIFIED_FAILURE_CODES: VerificationErrorCode[] = [
+  'UNKNOWN_TAG',
+  'NOT_OWNER',
+  'TAMPERED',
+  'REVOKED',
+  'REAUTH_REQUIRED',
+];
+
+function isGenuineTap(event: ScanEvent): boolean {
+  if (event.action || event.counter === undefined) {
+    return false;
+  }
+  return event.success || (!!event.code && VERIFIED_FAILURE_CODES.includes(event.code));
+}
+
+function parseAction(value: string | undefined, fallback: AnomalyAction): AnomalyAction {
+  return value === 'warn' || value === 'reauth' || value === 'suspend' ? value : fallback;
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * 환경 변수로부터 이상 탐지 정책 생성
+ * - NTAG424_ANOMALY_MAX_COUNTER_GAP (기본 1000) / NTAG424_ANOMALY_COUNTER_GAP_ACTION (기본 warn)
+ * - NTAG424_ANOMALY_VELOCITY_SECONDS (기본 10) / NTAG424_ANOMALY_VELOCITY_ACTION (기본 warn)
+ * - NTAG424_REAUTH_MAX_AGE_SECONDS (기본 300)
+ */
+export function getAnomalyPolicyFromEnv(): AnomalyPolicy {
+  return {
+    counterGap: {
+      max: parseNumber(process.env.NTAG424_ANOMALY_MAX_COUNTER_GAP, 1000),
+      action: parseAction(process.env.NTAG424_ANOMALY_COUNTER_GAP_ACTION, 'warn'),
+    },
+    velocity: {
+      windowSeconds: parseNumber(process.env.NTAG424_ANOMALY_VELOCITY_SECONDS, 10),
+      action: parseAction(process.env.NTAG424_ANOMALY_VELOCITY_ACTION, 'warn'),
+    },
+    reauthMaxAgeSeconds: parseNumber(process.env.NTAG424_REAUTH_MAX_AGE_SECONDS, 300),
+  };
+}
+
+/**
+ * 정책에 따라 이상 여부 판단 (없으면 빈 배열)
+ */
+export function detectAnomalies(tap: TapContext, policy: AnomalyPolicy): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+
+  // 처음 스캔된 태그는 출고 전 읽힌 횟수를 알 수 없으므로 제외
+  const gap = tap.counter - tap.previousCounter;
+  if (policy.counterGap.max > 0 && tap.previousCounter > 0 && gap > policy.counterGap.max) {
+    anomalies.push({
+      type: 'counter-gap',
+      action: policy.counterGap.action,
+      detail: `Counter jumped by ${gap} (from ${tap.previousCounter} to ${tap.counter})`,
+    });
+  }
+
+  const last = tap.recentScans.find(isGenuineTap);
+  if (policy.velocity.windowSeconds > 0 && last) {
+    const elapsed = (tap.timestamp - Date.parse(last.timestamp)) / 1000;
+    const otherUser = !!last.user && last.user !== tap.user;
+    const otherIp = !!last.ip && !!tap.ip && last.ip !== tap.ip;
+    if (elapsed < policy.velocity.windowSeconds && (otherUser || otherIp)) {
+      anomalies.push({
+        type: 'velocity',
+        action: policy.velocity.action,
+        detail: `Tapped by ${otherUser ? 'another user' : 'another IP'} ${Math.max(0, Math.round(elapsed))}s after the previous tap`,
+      });
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * 가장 강한 조치 (이상이 없으면 null)
+ */
+export function resolveAnomalyAction(anomalies: Anomaly[]): AnomalyAction | null {
+  return anomalies.reduce<AnomalyAction | null>(
+    (strongest, anomaly) =>
+      strongest === null || ACTION_SEVERITY[anomaly.action] > ACTION_SEVERITY[strongest] ? anomaly.action : strongest,
+    null
+  );
+}
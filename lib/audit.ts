@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { recordScan } from './kv';
+import { getClientInfo } from './client';
+import { dispatchScanWebhook } from './webhooks';
+import type { ScanEvent } from './store/types';
+
+type ScanOutcome = Pick<ScanEvent, 'success' | 'action' | 'code' | 'reason' | 'counter' | 'target' | 'anomalies'>;
+
+/**
+ * 검증 시도 / 태그 관리 작업을 태그의 스캔 기록에 저장하고 구독한 웹훅 전송 기록 추가 (전송은 백그라운드)
+ * user: 로그인하지 않은 공개 검증은 undefined
+ * 기록 / 전송 실패로 응답이 막히지 않도록 오류는 로그만 남김
+ */
+export async function logScan(request: NextRequest, uid: string, user: string | undefined, outcome: ScanOutcome): Promise<void> {
+  const event: Omit<ScanEvent, 'id'> = {
+    uid,
+    user,
+    timestamp: new Date().toISOString(),
+    ...outcome,
+    ...getClientInfo(request),
+  };
+
+  try {
+    await recordScan(event);
+  } catch (error) {
+    console.error('[AUDIT] Failed to record scan:', error);
+  }
+
+  try {
+    await dispatchScanWebhook(event);
+  } catch (error) {
+    console.error('[AUDIT] Failed to dispatch webhook:', error);
+  }
+}
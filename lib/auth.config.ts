@@ -1,5 +1,6 @@
 import { NextAuthOptions } from "next-auth";
 import GoogleProvider from "next-auth/providers/google";
+import { isAdmin } from "./roles";
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -12,12 +13,18 @@ export const authOptions: NextAuthOptions = {
     async session({ session, token }) {
       if (session.user) {
         session.user.id = token.sub!;
+        session.authTime = token.authTime;
+        session.user.isAdmin = token.isAdmin ?? false;
       }
       return session;
     },
     async jwt({ token, user }) {
       if (user) {
         token.id = user.id;
+        // 로그인 시각 (이상 스캔 탐지 시 재로그인 확인용, 초)
+        token.authTime = Math.floor(Date.now() / 1000);
+        // 관리자 여부는 로그인 시 한 번만 확인 (화면 표시용, 관리자 API는 요청마다 다시 확인)
+        token.isAdmin = !!user.email && (await isAdmin(user.email));
       }
       return token;
     },
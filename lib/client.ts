@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * 요청한 클라이언트 정보 (스캔 기록 / 요청 제한용)
+ * 클라이언트가 보낸 x-forwarded-for 값은 앞쪽에 그대로 남으므로 사용하지 않음
+ * - 플랫폼이 제공하는 주소 (request.ip) 또는 프록시가 덮어쓰는 x-real-ip 우선
+ * - 없으면 x-forwarded-for의 마지막 주소 (바로 앞 프록시가 추가한 값)
+ */
+export function getClientInfo(request: NextRequest): { ip?: string; userAgent?: string } {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const ip =
+    request.ip ||
+    request.headers.get('x-real-ip')?.trim() ||
+    forwardedFor?.split(',').pop()?.trim() ||
+    undefined;
+  const userAgent = request.headers.get('user-agent') || undefined;
+  return { ip, userAgent };
+}
@@ -0,0 +1,12 @@
+/**
+ * 사용자 이메일 (대소문자 구분 없음)
+ * 저장할 때는 소문자로 정규화하고, 세션 이메일과 비교할 때는 isSameEmail 사용
+ */
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isSameEmail(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && normalizeEmail(a) === normalizeEmail(b);
+}
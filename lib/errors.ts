@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * 태그 검증 / API 실패 코드
+ * reason은 로그와 디버깅용 설명이고, 클라이언트 분기와 HTTP 상태는 code로 결정
+ */
+export type VerificationErrorCode =
+  // 요청 파라미터 누락, 잘못된 hex / URL 형식, UID나 카운터가 미러링되지 않은 태그
+  | 'BAD_FORMAT'
+  // PICC 데이터 / 파일 데이터 복호화 실패 (키 불일치 또는 손상된 데이터)
+  | 'DECRYPT_FAILED'
+  // CMAC 불일치
+  | 'MAC_MISMATCH'
+  // 이미 사용된 카운터 (같은 URL 재사용)
+  | 'REPLAY'
+  // 마지막으로 사용된 카운터보다 작은 값
+  | 'COUNTER_REGRESSION'
+  // 등록되지 않은 태그
+  | 'UNKNOWN_TAG'
+  // 다른 사용자에게 등록된 태그
+  | 'NOT_OWNER'
+  // 태그 외의 관리 대상이 없음 (예: 웹훅 구독)
+  | 'NOT_FOUND'
+  // 사용이 중지된 태그
+  | 'REVOKED'
+  // 봉인이 열렸거나 TT 상태를 인증할 수 없음 (NTAG424_TAMPER_POLICY=reject)
+  | 'TAMPERED'
+  // 로그인 필요
+  | 'UNAUTHENTICATED'
+  // 관리자 권한 필요
+  | 'FORBIDDEN'
+  // 이상 스캔 탐지 (복제 의심), 다시 로그인한 뒤 재스캔 필요
+  | 'REAUTH_REQUIRED'
+  // 요청 제한 초과 (Retry-After 헤더 참고)
+  | 'RATE_LIMITED'
+  // 서버 키 설정 누락
+  | 'CONFIGURATION'
+  | 'INTERNAL';
+
+/**
+ * 실패 코드별 HTTP 상태
+ */
+export const ERROR_STATUS: Record<VerificationErrorCode, number> = {
+  BAD_FORMAT: 400,
+  DECRYPT_FAILED: 400,
+  MAC_MISMATCH: 400,
+  REPLAY: 409,
+  COUNTER_REGRESSION: 409,
+  UNKNOWN_TAG: 404,
+  NOT_OWNER: 403,
+  NOT_FOUND: 404,
+  REVOKED: 403,
+  TAMPERED: 403,
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  REAUTH_REQUIRED: 401,
+  RATE_LIMITED: 429,
+  CONFIGURATION: 500,
+  INTERNAL: 500,
+};
+
+/**
+ * 실패 응답 생성 ({ success: false, code, message, reason, data })
+ */
+export function errorResponse(
+  code: VerificationErrorCode,
+  message: string,
+  reason?: string,
+  data?: Record<string, unknown>
+): NextResponse {
+  return NextResponse.json(
+    { success: false, code, message, reason, data },
+    { status: ERROR_STATUS[code] }
+  );
+}
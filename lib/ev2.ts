@@ -0,0 +1,318 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { aesCmac } from 'node-aes-cmac';
+
+/**
+ * NTAG424 EV2 인증 및 보안 메시징 (AES 모드) - NXP AN12196
+ * 태그 개인화 명령(lib/personalize)의 MAC / 암호화와 응답 검증에 사용
+ */
+
+// 네이티브 명령 코드
+export const CMD_AUTHENTICATE_EV2_FIRST = 0x71;
+export const CMD_ADDITIONAL_FRAME = 0xaf;
+
+// 응답 상태 (SW1 = 0x91)
+const STATUS_OK = 0x00;
+const STATUS_ADDITIONAL_FRAME = 0xaf;
+
+/**
+ * 통신 모드 (CommMode.Plain / MAC / Full)
+ */
+export type CommMode = 'plain' | 'mac' | 'full';
+
+/**
+ * AuthenticateEV2First로 수립된 보안 세션
+ * cmdCtr는 명령 / 응답 한 쌍마다 증가
+ */
+export interface EV2Session {
+  keyNo: number;
+  ti: Buffer;
+  encKey: Buffer;
+  macKey: Buffer;
+  cmdCtr: number;
+}
+
+/**
+ * AuthenticateEV2First 진행 상태 (Part1 응답 처리 후)
+ */
+export interface EV2AuthChallenge {
+  keyNo: number;
+  key: Buffer;
+  rndA: Buffer;
+  rndB: Buffer;
+  apdu: Buffer;
+}
+
+/**
+ * AES-128 CBC 암호화 (패딩 없음)
+ */
+function encryptCBC(key: Buffer, iv: Buffer, data: Buffer): Buffer {
+  const cipher = createCipheriv('aes-128-cbc', key, iv);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+/**
+ * AES-128 CBC 복호화 (패딩 없음)
+ */
+function decryptCBC(key: Buffer, iv: Buffer, data: Buffer): Buffer {
+  const decipher = createDecipheriv('aes-128-cbc', key, iv);
+  decipher.setAutoPadding(false);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+/**
+ * 1바이트 왼쪽 회전 (RndA' / RndB')
+ */
+function rotateLeft(data: Buffer): Buffer {
+  return Buffer.concat([data.subarray(1), data.subarray(0, 1)]);
+}
+
+/**
+ * ISO/IEC 9797-1 패딩 방법 2 (0x80 00.., 항상 추가)
+ */
+function padData(data: Buffer): Buffer {
+  const length = (Math.floor(data.length / 16) + 1) * 16;
+  const padded = Buffer.alloc(length, 0);
+  data.copy(padded);
+  padded[data.length] = 0x80;
+  return padded;
+}
+
+/**
+ * 패딩 제거 (마지막 0x80 이후가 모두 0이어야 함)
+ */
+function unpadData(data: Buffer): Buffer {
+  let end = data.length - 1;
+  while (end >= 0 && data[end] === 0x00) {
+    end--;
+  }
+  if (end < 0 || data[end] !== 0x80) {
+    throw new Error('Invalid padding in decrypted response');
+  }
+  return data.subarray(0, end);
+}
+
+/**
+ * CMAC 후 홀수 바이트만 사용 (MACt, 8바이트)
+ */
+function truncatedMAC(key: Buffer, input: Buffer): Buffer {
+  const full = aesCmac(key, input, { returnAsBuffer: true }) as Buffer;
+  const truncated = Buffer.alloc(8);
+  for (let i = 0; i < 8; i++) {
+    truncated[i] = full[i * 2 + 1];
+  }
+  return truncated;
+}
+
+/**
+ * 2바이트 리틀 엔디언 카운터
+ */
+function counterBytes(counter: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(counter & 0xffff);
+  return buffer;
+}
+
+/**
+ * CRC32 (JAMCRC - 최종 반전 없음, 리틀 엔디언) - ChangeKey의 CRC32NK
+ */
+export function jamCRC32(data: Buffer): Buffer {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(crc >>> 0);
+  return buffer;
+}
+
+/**
+ * 네이티브 명령을 ISO 7816-4 APDU로 감싸기 (CLA 0x90)
+ */
+export function wrapCommand(cmd: number, data: Buffer = Buffer.alloc(0)): Buffer {
+  if (data.length > 255) {
+    throw new Error('Command data must not exceed 255 bytes');
+  }
+  if (data.length === 0) {
+    return Buffer.from([0x90, cmd, 0x00, 0x00, 0x00]);
+  }
+  return Buffer.concat([Buffer.from([0x90, cmd, 0x00, 0x00, data.length]), data, Buffer.from([0x00])]);
+}
+
+/**
+ * 응답 APDU를 데이터와 상태 코드로 분리 (SW1은 0x91이어야 함)
+ */
+export function splitResponse(response: Buffer): { data: Buffer; status: number } {
+  if (response.length < 2 || response[response.length - 2] !== 0x91) {
+    throw new Error(`Unexpected response: ${response.toString('hex').toUpperCase()}`);
+  }
+  return {
+    data: response.subarray(0, response.length - 2),
+    status: response[response.length - 1],
+  };
+}
+
+/**
+ * 상태 코드 확인 (기대값이 아니면 오류)
+ */
+function expectStatus(status: number, expected: number): void {
+  if (status !== expected) {
+    throw new Error(`PICC returned status 91${status.toString(16).padStart(2, '0').toUpperCase()}`);
+  }
+}
+
+/**
+ * 세션 키 생성 - SV1(A55A) / SV2(5AA5) || 0001 0080 || RndA/RndB 조합 후 CMAC
+ */
+export function deriveSessionKeys(key: Buffer, rndA: Buffer, rndB: Buffer): { encKey: Buffer; macKey: Buffer } {
+  const mixed = Buffer.alloc(6);
+  for (let i = 0; i < 6; i++) {
+    mixed[i] = rndA[2 + i] ^ rndB[i];
+  }
+  const context = Buffer.concat([rndA.subarray(0, 2), mixed, rndB.subarray(6), rndA.subarray(8)]);
+
+  const sv1 = Buffer.concat([Buffer.from('A55A00010080', 'hex'), context]);
+  const sv2 = Buffer.concat([Buffer.from('5AA500010080', 'hex'), context]);
+
+  return {
+    encKey: aesCmac(key, sv1, { returnAsBuffer: true }) as Buffer,
+    macKey: aesCmac(key, sv2, { returnAsBuffer: true }) as Buffer,
+  };
+}
+
+/**
+ * AuthenticateEV2First Part1 명령 (KeyNo, LenCap = 0)
+ */
+export function buildAuthenticateEV2First(keyNo: number): Buffer {
+  return wrapCommand(CMD_AUTHENTICATE_EV2_FIRST, Buffer.from([keyNo, 0x00]));
+}
+
+/**
+ * Part1 응답 E(Kx, RndB) 처리 후 Part2 명령 생성 - E(Kx, RndA || RndB')
+ * rndA: 테스트용으로 지정 가능 (생략 시 난수)
+ */
+export function buildAuthenticateEV2FirstPart2(
+  keyNo: number,
+  key: Buffer,
+  response: Buffer,
+  rndA: Buffer = randomBytes(16)
+): EV2AuthChallenge {
+  const { data, status } = splitResponse(response);
+  expectStatus(status, STATUS_ADDITIONAL_FRAME);
+  if (data.length !== 16) {
+    throw new Error('AuthenticateEV2First Part1 response must be 16 bytes');
+  }
+
+  const rndB = decryptCBC(key, Buffer.alloc(16, 0), data);
+  const encrypted = encryptCBC(key, Buffer.alloc(16, 0), Buffer.concat([rndA, rotateLeft(rndB)]));
+
+  return {
+    keyNo,
+    key,
+    rndA,
+    rndB,
+    apdu: wrapCommand(CMD_ADDITIONAL_FRAME, encrypted),
+  };
+}
+
+/**
+ * Part2 응답 E(Kx, TI || RndA' || PDcap2 || PCDcap2) 확인 후 세션 생성
+ * RndA'가 일치하지 않으면 태그가 같은 키를 갖고 있지 않은 것
+ */
+export function completeAuthenticateEV2First(challenge: EV2AuthChallenge, response: Buffer): EV2Session {
+  const { data, status } = splitResponse(response);
+  expectStatus(status, STATUS_OK);
+  if (data.length !== 32) {
+    throw new Error('AuthenticateEV2First Part2 response must be 32 bytes');
+  }
+
+  const decrypted = decryptCBC(challenge.key, Buffer.alloc(16, 0), data);
+  const ti = decrypted.subarray(0, 4);
+  const rndARotated = decrypted.subarray(4, 20);
+
+  if (!rndARotated.equals(rotateLeft(challenge.rndA))) {
+    throw new Error('AuthenticateEV2First failed - RndA mismatch');
+  }
+
+  return {
+    keyNo: challenge.keyNo,
+    ti: Buffer.from(ti),
+    ...deriveSessionKeys(challenge.key, challenge.rndA, challenge.rndB),
+    cmdCtr: 0,
+  };
+}
+
+/**
+ * 명령 / 응답 암호화 IV - E(KSesAuthENC, label || TI || CmdCtr || 0^8)
+ */
+function sessionIV(session: EV2Session, label: string, counter: number): Buffer {
+  const input = Buffer.concat([Buffer.from(label, 'hex'), session.ti, counterBytes(counter), Buffer.alloc(8, 0)]);
+  return encryptCBC(session.encKey, Buffer.alloc(16, 0), input);
+}
+
+/**
+ * 보안 메시징 명령 생성
+ * - plain: CmdHeader || CmdData 그대로
+ * - mac: CmdHeader || CmdData || MACt
+ * - full: CmdHeader || E(KSesAuthENC, CmdData) || MACt
+ * MACt = CMAC(KSesAuthMAC, Cmd || CmdCtr || TI || CmdHeader || CmdData)
+ */
+export function buildSecureCommand(
+  session: EV2Session,
+  cmd: number,
+  header: Buffer,
+  data: Buffer,
+  mode: CommMode
+): Buffer {
+  if (mode === 'plain') {
+    return wrapCommand(cmd, Buffer.concat([header, data]));
+  }
+
+  const payload = mode === 'full' && data.length > 0
+    ? encryptCBC(session.encKey, sessionIV(session, 'A55A', session.cmdCtr), padData(data))
+    : data;
+
+  const macInput = Buffer.concat([Buffer.from([cmd]), counterBytes(session.cmdCtr), session.ti, header, payload]);
+  const mac = truncatedMAC(session.macKey, macInput);
+
+  return wrapCommand(cmd, Buffer.concat([header, payload, mac]));
+}
+
+/**
+ * 보안 메시징 응답 검증 및 복호화 (성공 시 CmdCtr 증가)
+ * MACt = CMAC(KSesAuthMAC, RC || CmdCtr+1 || TI || RespData)
+ */
+export function verifySecureResponse(session: EV2Session, response: Buffer, mode: CommMode): Buffer {
+  const { data, status } = splitResponse(response);
+  expectStatus(status, STATUS_OK);
+
+  const counter = (session.cmdCtr + 1) & 0xffff;
+
+  if (mode === 'plain') {
+    session.cmdCtr = counter;
+    return data;
+  }
+
+  if (data.length < 8) {
+    throw new Error('Response MAC missing');
+  }
+
+  const payload = data.subarray(0, data.length - 8);
+  const mac = data.subarray(data.length - 8);
+  const macInput = Buffer.concat([Buffer.from([status]), counterBytes(counter), session.ti, payload]);
+
+  if (!truncatedMAC(session.macKey, macInput).equals(mac)) {
+    throw new Error('Response MAC verification failed');
+  }
+
+  session.cmdCtr = counter;
+
+  if (mode === 'full' && payload.length > 0) {
+    return unpadData(decryptCBC(session.encKey, sessionIV(session, '5AA5', counter), payload));
+  }
+
+  return payload;
+}
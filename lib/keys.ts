@@ -0,0 +1,234 @@
+import { createCipheriv } from 'crypto';
+
+/**
+ * NTAG424 SDM 키 관리 (SDMMetaRead / SDMFileRead 키 분리 및 태그별 키 다변화)
+ */
+
+export interface SDMKeyProvider {
+  /**
+   * PICC 데이터 복호화용 KSDMMetaRead
+   * UID는 암호화된 PICC 데이터 안에 있으므로 태그 공통 키를 사용
+   */
+  getMetaReadKey(): Promise<Buffer>;
+
+  /**
+   * UID별 KSDMFileRead (세션 MAC/ENC 키 생성의 기준 키)
+   */
+  getFileReadKey(uid: string): Promise<Buffer>;
+}
+
+/**
+ * Hex 키 문자열을 16바이트 Buffer로 변환
+ */
+function parseAESKey(hex: string, name: string): Buffer {
+  const key = Buffer.from(hex, 'hex');
+  if (key.length !== 16) {
+    throw new Error(`${name} must be a 16-byte AES key in hex`);
+  }
+  return key;
+}
+
+/**
+ * AES-128 단일 블록 암호화 (ECB)
+ */
+function encryptBlock(key: Buffer, block: Buffer): Buffer {
+  const cipher = createCipheriv('aes-128-ecb', key, null);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(block), cipher.final()]);
+}
+
+/**
+ * GF(2^128)에서 왼쪽 1비트 시프트 (CMAC 서브키 생성)
+ */
+function shiftSubkey(input: Buffer): Buffer {
+  const output = Buffer.alloc(16);
+  for (let i = 0; i < 15; i++) {
+    output[i] = ((input[i] << 1) | (input[i + 1] >> 7)) & 0xff;
+  }
+  output[15] = (input[15] << 1) & 0xff;
+  if (input[0] & 0x80) {
+    output[15] ^= 0x87;
+  }
+  return output;
+}
+
+/**
+ * AN10922 AES-128 키 다변화
+ * D = 0x01 || UID || SystemIdentifier, 32바이트로 패딩 (0x80 00..) 후 CMAC
+ * 패딩이 없으면 K1, 패딩이 있으면 K2로 마지막 블록을 XOR
+ */
+export function diversifyKey(
+  masterKey: Buffer,
+  uid: string,
+  systemIdentifier: Buffer = Buffer.alloc(0)
+): Buffer {
+  const uidBuffer = Buffer.from(uid, 'hex');
+  const input = Buffer.concat([Buffer.from([0x01]), uidBuffer, systemIdentifier]);
+
+  if (input.length > 32) {
+    throw new Error('Diversification input must not exceed 32 bytes');
+  }
+
+  const k0 = encryptBlock(masterKey, Buffer.alloc(16, 0));
+  const k1 = shiftSubkey(k0);
+  const k2 = shiftSubkey(k1);
+
+  const padded = Buffer.alloc(32, 0);
+  input.copy(padded);
+  const subkey = input.length < 32 ? k2 : k1;
+  if (input.length < 32) {
+    padded[input.length] = 0x80;
+  }
+
+  for (let i = 0; i < 16; i++) {
+    padded[16 + i] ^= subkey[i];
+  }
+
+  // CBC-MAC (IV = 0)
+  const cipher = createCipheriv('aes-128-cbc', masterKey, Buffer.alloc(16, 0));
+  cipher.setAutoPadding(false);
+  const encrypted = Buffer.concat([cipher.update(padded), cipher.final()]);
+
+  return encrypted.subarray(16, 32);
+}
+
+/**
+ * 모든 태그가 같은 MetaRead / FileRead 키를 사용하는 키 제공자
+ */
+export function createStaticKeyProvider(
+  metaReadKey: string,
+  fileReadKey: string = metaReadKey
+): SDMKeyProvider {
+  const metaRead = parseAESKey(metaReadKey, 'SDMMetaRead key');
+  const fileRead = parseAESKey(fileReadKey, 'SDMFileRead key');
+
+  return {
+    async getMetaReadKey() {
+      return metaRead;
+    },
+    async getFileReadKey() {
+      return fileRead;
+    },
+  };
+}
+
+/**
+ * 마스터 키에서 UID별 FileRead 키를 다변화하는 키 제공자
+ * 태그 하나의 키가 유출되어도 다른 태그에는 영향이 없음
+ */
+export function createDiversifiedKeyProvider(
+  metaReadKey: string,
+  fileReadMasterKey: string,
+  systemIdentifier?: string
+): SDMKeyProvider {
+  const metaRead = parseAESKey(metaReadKey, 'SDMMetaRead key');
+  const master = parseAESKey(fileReadMasterKey, 'SDMFileRead master key');
+  const sysId = systemIdentifier ? Buffer.from(systemIdentifier, 'hex') : Buffer.alloc(0);
+
+  return {
+    async getMetaReadKey() {
+      return metaRead;
+    },
+    async getFileReadKey(uid: string) {
+      return diversifyKey(master, uid, sysId);
+    },
+  };
+}
+
+/**
+ * 환경 변수로부터 키 제공자 생성
+ * - NTAG424_META_READ_KEY: PICC 데이터 복호화 키
+ * - NTAG424_FILE_READ_MASTER_KEY: 설정 시 UID별로 다변화된 FileRead 키 사용
+ * - NTAG424_FILE_READ_KEY: 다변화하지 않는 FileRead 키
+ * - NTAG424_DIVERSIFICATION_SYSTEM_ID: 다변화 입력에 추가할 System Identifier (선택)
+ * - NTAG424_AES_KEY: 위 값이 없을 때 두 키 모두에 사용 (기존 설정 호환)
+ */
+export function getKeyProviderFromEnv(): SDMKeyProvider | null {
+  const legacyKey = process.env.NTAG424_AES_KEY;
+  const metaReadKey = process.env.NTAG424_META_READ_KEY || legacyKey;
+
+  if (!metaReadKey) {
+    return null;
+  }
+
+  const masterKey = process.env.NTAG424_FILE_READ_MASTER_KEY;
+  if (masterKey) {
+    return createDiversifiedKeyProvider(
+      metaReadKey,
+      masterKey,
+      process.env.NTAG424_DIVERSIFICATION_SYSTEM_ID
+    );
+  }
+
+  const fileReadKey = process.env.NTAG424_FILE_READ_KEY || legacyKey;
+  if (!fileReadKey) {
+    return null;
+  }
+
+  return createStaticKeyProvider(metaReadKey, fileReadKey);
+}
+
+/**
+ * 버전이 지정된 키 (키 교체 시 이전 버전도 검증 후보로 유지)
+ * retired: 회수된 키 - 검증은 허용하지만 해당 태그는 재개인화 대상
+ */
+export interface SDMKeyVersion {
+  version: number;
+  provider: SDMKeyProvider;
+  retired?: boolean;
+}
+
+// 최신 버전이 먼저 오도록 정렬된 키 목록
+export type SDMKeyring = SDMKeyVersion[];
+
+/**
+ * NTAG424_KEYRING 항목 형식
+ * fileReadMasterKey가 있으면 UID별 다변화, 없으면 fileReadKey (또는 metaReadKey) 사용
+ */
+interface KeyringEntryConfig {
+  version: number;
+  metaReadKey: string;
+  fileReadKey?: string;
+  fileReadMasterKey?: string;
+  systemIdentifier?: string;
+  retired?: boolean;
+}
+
+/**
+ * 키 목록 생성 (버전 내림차순 정렬, 중복 버전 거부)
+ */
+export function createKeyring(entries: SDMKeyVersion[]): SDMKeyring {
+  const versions = new Set<number>();
+  for (const entry of entries) {
+    if (versions.has(entry.version)) {
+      throw new Error(`Duplicate key version: ${entry.version}`);
+    }
+    versions.add(entry.version);
+  }
+  return [...entries].sort((a, b) => b.version - a.version);
+}
+
+/**
+ * 환경 변수로부터 키 목록 생성
+ * - NTAG424_KEYRING: KeyringEntryConfig 배열 (JSON)
+ * - 없으면 기존 단일 키 설정을 버전 1로 사용
+ */
+export function getKeyringFromEnv(): SDMKeyring | null {
+  const keyringJson = process.env.NTAG424_KEYRING;
+
+  if (keyringJson) {
+    const entries = JSON.parse(keyringJson) as KeyringEntryConfig[];
+    return createKeyring(
+      entries.map((entry) => ({
+        version: entry.version,
+        retired: entry.retired,
+        provider: entry.fileReadMasterKey
+          ? createDiversifiedKeyProvider(entry.metaReadKey, entry.fileReadMasterKey, entry.systemIdentifier)
+          : createStaticKeyProvider(entry.metaReadKey, entry.fileReadKey),
+      }))
+    );
+  }
+
+  const provider = getKeyProviderFromEnv();
+  return provider ? createKeyring([{ version: 1, provider }]) : null;
+}
@@ -1,66 +1,313 @@
-import { kv } from '@vercel/kv';
+import { getStore } from './store';
+import { normalizeEmail } from './email';
+import type {
+  AnomalyEvent,
+  ProductInfo,
+  RateLimitHit,
+  ScanEvent,
+  ScanEventPage,
+  TagDetails,
+  TagMetadataValue,
+  TagRecord,
+  TagRevocation,
+  TagTransfer,
+  UserRole,
+  WebhookDelivery,
+  WebhookSubscription,
+} from './store/types';
 
 /**
  * 태그 UID와 사용자 이메일 매핑 관리
+ * 실제 저장은 NTAG424_STORE로 선택된 저장소가 담당 (lib/store)
  */
 
-// 태그를 사용자에게 등록
+/**
+ * 태그 정보 수정 내용
+ * 생략한 필드는 유지하고 null은 삭제, metadata는 전체를 교체
+ */
+export interface TagDetailsUpdate {
+  nickname?: string | null;
+  description?: string | null;
+  metadata?: Record<string, TagMetadataValue> | null;
+}
+
+/**
+ * 관리자용 태그 상태 (태그 정보 + 카운터 / 키 버전 / 진행 중인 소유권 이전)
+ */
+export interface TagStatus extends TagRecord {
+  counter: number;
+  keyVersion: number | null;
+  transfer: TagTransfer | null;
+  revocation: TagRevocation | null;
+}
+
+/**
+ * 사용자 태그 목록 항목 (태그 정보 + 사용 중지 상태)
+ */
+export interface UserTag extends TagRecord {
+  revocation: TagRevocation | null;
+}
+
+// 태그를 사용자에게 등록 (이전 태그 정보는 초기화, 이메일은 소문자로 저장)
 export async function registerTag(uid: string, userEmail: string): Promise<void> {
-  const key = `tag:${uid}`;
-  console.log('[KV] Setting key:', key, 'value:', userEmail);
-  await kv.set(key, userEmail);
-  console.log('[KV] Set complete');
+  const store = getStore();
+  await store.setTagOwner(uid, normalizeEmail(userEmail));
+  await store.setTagDetails(uid, { registeredAt: new Date().toISOString() });
 }
 
 // 태그의 소유자 조회
 export async function getTagOwner(uid: string): Promise<string | null> {
-  const key = `tag:${uid}`;
-  console.log('[KV] Getting key:', key);
-  const result = await kv.get<string>(key);
-  console.log('[KV] Get result:', result);
-  return result;
-}
-
-// 사용자의 모든 태그 조회
-export async function getUserTags(userEmail: string): Promise<string[]> {
-  const keys = await kv.keys('tag:*');
-  const tags: string[] = [];
-  
-  for (const key of keys) {
-    const owner = await kv.get<string>(key);
-    if (owner === userEmail) {
-      tags.push(key.replace('tag:', ''));
+  return getStore().getTagOwner(uid);
+}
+
+// 태그 조회 (소유자 + 태그 정보, 미등록이면 null)
+export async function getTag(uid: string): Promise<TagRecord | null> {
+  const store = getStore();
+  const owner = await store.getTagOwner(uid);
+  if (!owner) {
+    return null;
+  }
+  const details = await store.getTagDetails(uid);
+  return { uid, owner, ...details };
+}
+
+// 태그 상태 조회 (미등록이면 null)
+export async function getTagStatus(uid: string): Promise<TagStatus | null> {
+  const tag = await getTag(uid);
+  if (!tag) {
+    return null;
+  }
+  const store = getStore();
+  const [counter, keyVersion, transfer, revocation] = await Promise.all([
+    store.getMaxCounter(uid),
+    store.getTagKeyVersion(uid),
+    store.getTagTransfer(uid),
+    store.getTagRevocation(uid),
+  ]);
+  return { ...tag, counter, keyVersion, transfer, revocation };
+}
+
+// 모든 태그 상태 조회 (UID순)
+export async function listTagStatuses(): Promise<TagStatus[]> {
+  const tags = await getStore().listTags();
+  const statuses = await Promise.all(tags.map(({ uid }) => getTagStatus(uid)));
+  return statuses
+    .filter((status): status is TagStatus => status !== null)
+    .sort((a, b) => a.uid.localeCompare(b.uid));
+}
+
+// 사용자의 모든 태그 조회 (사용자 -> 태그 인덱스 사용)
+export async function getUserTags(userEmail: string): Promise<UserTag[]> {
+  const store = getStore();
+  const owner = normalizeEmail(userEmail);
+  const uids = await store.listUserTags(owner);
+  return Promise.all(
+    uids.map(async (uid) => {
+      const [details, revocation] = await Promise.all([store.getTagDetails(uid), store.getTagRevocation(uid)]);
+      return { uid, owner, ...details, revocation };
+    })
+  );
+}
+
+// 태그 정보 수정 후 수정된 정보 반환
+export async function updateTagDetails(uid: string, update: TagDetailsUpdate): Promise<TagDetails> {
+  const store = getStore();
+  const details: TagDetails = { ...(await store.getTagDetails(uid)) };
+
+  for (const field of ['nickname', 'description', 'metadata'] as const) {
+    const value = update[field];
+    if (value === null) {
+      delete details[field];
+    } else if (value !== undefined) {
+      (details as Record<string, unknown>)[field] = value;
     }
   }
-  
-  return tags;
+  details.updatedAt = new Date().toISOString();
+
+  await store.setTagDetails(uid, details);
+  return details;
+}
+
+// 기존 tag:* 데이터로 사용자 -> 태그 인덱스 재구성 (마이그레이션)
+export async function backfillUserTagIndex(): Promise<number> {
+  return getStore().rebuildUserTagIndex();
 }
 
-// 태그 등록 해제
+// 태그 등록 해제 (태그 정보도 삭제, 카운터 / 스캔 기록은 유지)
 export async function unregisterTag(uid: string): Promise<void> {
-  await kv.del(`tag:${uid}`);
+  await getStore().deleteTag(uid);
+}
+
+// 소유권 이전 시작 (같은 태그의 이전 요청은 대체, 이메일은 소문자로 저장)
+export async function startTagTransfer(uid: string, from: string, to: string, ttlMinutes: number): Promise<TagTransfer> {
+  const now = Date.now();
+  const transfer: TagTransfer = {
+    uid,
+    from: normalizeEmail(from),
+    to: normalizeEmail(to),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMinutes * 60 * 1000).toISOString(),
+  };
+  await getStore().setTagTransfer(transfer);
+  return transfer;
+}
+
+// 진행 중인 소유권 이전 조회 (없거나 만료되면 null)
+export async function getPendingTransfer(uid: string): Promise<TagTransfer | null> {
+  return getStore().getTagTransfer(uid);
+}
+
+// 소유권 이전 취소
+export async function cancelTagTransfer(uid: string): Promise<void> {
+  await getStore().deleteTagTransfer(uid);
+}
+
+// 소유권 이전 완료 (받는 사용자에게 새로 등록, 카운터 / 키 버전 / 스캔 기록은 유지)
+export async function completeTagTransfer(transfer: TagTransfer): Promise<void> {
+  await registerTag(transfer.uid, transfer.to);
+  await getStore().deleteTagTransfer(transfer.uid);
+}
+
+// 태그 사용 중지 (등록 여부와 관계없이 UID 기준)
+export async function revokeTag(uid: string, revokedBy: string, reason?: string): Promise<TagRevocation> {
+  const revocation: TagRevocation = { uid, reason, revokedAt: new Date().toISOString(), revokedBy };
+  await getStore().setTagRevocation(revocation);
+  return revocation;
+}
+
+// 태그 사용 재개
+export async function reinstateTag(uid: string): Promise<void> {
+  await getStore().deleteTagRevocation(uid);
+}
+
+// 사용 중지 정보 조회 (사용 중이면 null)
+export async function getTagRevocation(uid: string): Promise<TagRevocation | null> {
+  return getStore().getTagRevocation(uid);
+}
+
+// 사용 중지된 태그 목록 (최근순)
+export async function listRevokedTags(): Promise<TagRevocation[]> {
+  const revocations = await getStore().listTagRevocations();
+  return revocations.sort((a, b) => b.revokedAt.localeCompare(a.revokedAt));
+}
+
+// 공개 검증용 제품 정보 조회 (설정되지 않았으면 null)
+export async function getProductInfo(uid: string): Promise<ProductInfo | null> {
+  return getStore().getProductInfo(uid);
 }
 
-// 카운터 저장 (리플레이 공격 방지)
-export async function saveCounter(uid: string, counter: number): Promise<void> {
-  await kv.zadd(`counters:${uid}`, { score: counter, member: counter.toString() });
-  
-  // 최근 1000개만 유지
-  const count = await kv.zcard(`counters:${uid}`);
-  if (count > 1000) {
-    await kv.zpopmin(`counters:${uid}`, count - 1000);
+// 제품 정보 설정 / 삭제 (null)
+export async function setProductInfo(uid: string, product: ProductInfo | null): Promise<void> {
+  if (product) {
+    await getStore().setProductInfo(uid, product);
+  } else {
+    await getStore().deleteProductInfo(uid);
   }
 }
 
-// 카운터가 사용되었는지 확인
-export async function isCounterUsed(uid: string, counter: number): Promise<boolean> {
-  const score = await kv.zscore(`counters:${uid}`, counter.toString());
-  return score !== null;
+// 카운터 원자적 비교 후 갱신 (리플레이 공격 방지)
+// 이전 최대값보다 큰 카운터만 저장하고 true 반환, 아니면 false
+export async function consumeCounter(uid: string, counter: number): Promise<boolean> {
+  return getStore().consumeCounter(uid, counter);
 }
 
 // 최대 카운터 값 조회
 export async function getMaxCounter(uid: string): Promise<number> {
-  const max = await kv.zrange(`counters:${uid}`, -1, -1, { withScores: true }) as Array<{member: string, score: number}>;
-  if (max.length === 0) return 0;
-  return max[0].score;
+  return getStore().getMaxCounter(uid);
+}
+
+// 카운터 기록 초기화 (관리자용)
+export async function resetCounter(uid: string): Promise<void> {
+  await getStore().resetCounter(uid);
+}
+
+// 태그가 마지막으로 검증된 SDM 키 버전 조회 (기록이 없으면 null)
+export async function getTagKeyVersion(uid: string): Promise<number | null> {
+  return getStore().getTagKeyVersion(uid);
+}
+
+// 태그의 SDM 키 버전 기록
+export async function setTagKeyVersion(uid: string, version: number): Promise<void> {
+  await getStore().setTagKeyVersion(uid, version);
+}
+
+// 모든 태그의 SDM 키 버전 조회 (회수된 키를 쓰는 태그 확인용)
+export async function listTagKeyVersions(): Promise<Array<{ uid: string; version: number }>> {
+  return getStore().listTagKeyVersions();
+}
+
+// 저장된 사용자 역할 조회 (이메일은 대소문자 구분 없이 소문자로 저장)
+export async function getUserRole(email: string): Promise<UserRole | null> {
+  return getStore().getUserRole(normalizeEmail(email));
+}
+
+// 사용자 역할 부여 / 해제 (null)
+export async function setUserRole(email: string, role: UserRole | null): Promise<void> {
+  await getStore().setUserRole(normalizeEmail(email), role);
+}
+
+// 역할이 저장된 사용자 목록
+export async function listUserRoles(): Promise<Array<{ email: string; role: UserRole }>> {
+  return getStore().listUserRoles();
+}
+
+// 슬라이딩 윈도 요청 제한 기록 (허용되면 이번 요청을 기록)
+export async function hitRateLimit(key: string, limit: number, windowMs: number): Promise<RateLimitHit> {
+  return getStore().hitRateLimit(key, limit, windowMs);
+}
+
+// 이상 탐지 기록
+export async function recordAnomaly(event: AnomalyEvent): Promise<void> {
+  await getStore().appendAnomalyEvent(event);
+}
+
+// 최근 이상 탐지 기록 조회 (최신순)
+export async function getRecentAnomalies(limit: number): Promise<AnomalyEvent[]> {
+  return getStore().listAnomalyEvents(limit);
+}
+
+// 웹훅 구독 목록
+export async function listWebhooks(): Promise<WebhookSubscription[]> {
+  return getStore().listWebhooks();
+}
+
+export async function getWebhook(id: string): Promise<WebhookSubscription | null> {
+  return getStore().getWebhook(id);
+}
+
+export async function saveWebhook(webhook: WebhookSubscription): Promise<void> {
+  await getStore().setWebhook(webhook);
+}
+
+// 구독 삭제 (남은 재시도는 다음 시도 때 failed 처리)
+export async function deleteWebhook(id: string): Promise<void> {
+  await getStore().deleteWebhook(id);
+}
+
+export async function recordWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+  await getStore().appendWebhookDelivery(delivery);
+}
+
+export async function updateWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+  await getStore().updateWebhookDelivery(delivery);
+}
+
+// 최근 웹훅 전송 기록 (최신순, webhookId가 있으면 해당 구독만)
+export async function getWebhookDeliveries(limit: number, webhookId?: string): Promise<WebhookDelivery[]> {
+  return getStore().listWebhookDeliveries(limit, webhookId);
+}
+
+// 다시 시도할 시각이 지난 전송 기록
+export async function getDueWebhookDeliveries(now: number, limit: number): Promise<WebhookDelivery[]> {
+  return getStore().listDueWebhookDeliveries(now, limit);
+}
+
+// 검증 시도 기록 (성공 / 실패 모두)
+export async function recordScan(event: Omit<ScanEvent, 'id'>): Promise<ScanEvent> {
+  return getStore().appendScanEvent(event);
+}
+
+// 태그의 스캔 기록 조회 (최신순, before: 이전 페이지의 nextCursor)
+export async function getScanHistory(uid: string, limit: number, before?: number): Promise<ScanEventPage> {
+  return getStore().listScanEvents(uid, { before, limit });
 }
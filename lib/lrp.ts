@@ -0,0 +1,186 @@
+import { createCipheriv, createDecipheriv } from 'crypto';
+
+/**
+ * LRP (Leakage Resilient Primitive) 구현 - NXP AN12304
+ * NTAG424 LRP 모드의 SDM 복호화(LRICB)와 MAC(CMAC_LRP)에 사용
+ */
+
+// 평문 테이블 크기 (m = 4, 니블 단위 평가)
+const PLAINTEXT_COUNT = 16;
+
+const BLOCK_55 = Buffer.alloc(16, 0x55);
+const BLOCK_AA = Buffer.alloc(16, 0xaa);
+const BLOCK_00 = Buffer.alloc(16, 0x00);
+
+/**
+ * AES-128 단일 블록 암호화 (ECB)
+ */
+function encryptBlock(key: Buffer, block: Buffer): Buffer {
+  const cipher = createCipheriv('aes-128-ecb', key, null);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(block), cipher.final()]);
+}
+
+/**
+ * AES-128 단일 블록 복호화 (ECB)
+ */
+function decryptBlock(key: Buffer, block: Buffer): Buffer {
+  const decipher = createDecipheriv('aes-128-ecb', key, null);
+  decipher.setAutoPadding(false);
+  return Buffer.concat([decipher.update(block), decipher.final()]);
+}
+
+/**
+ * 평문 테이블 생성 (Algorithm 1)
+ */
+function generatePlaintexts(key: Buffer): Buffer[] {
+  const plaintexts: Buffer[] = [];
+  let h = encryptBlock(key, BLOCK_55);
+  for (let i = 0; i < PLAINTEXT_COUNT; i++) {
+    plaintexts.push(encryptBlock(h, BLOCK_AA));
+    h = encryptBlock(h, BLOCK_55);
+  }
+  return plaintexts;
+}
+
+/**
+ * 갱신 키 생성 (Algorithm 2)
+ */
+function generateUpdatedKey(key: Buffer, index: number): Buffer {
+  let h = encryptBlock(key, BLOCK_AA);
+  for (let i = 0; i < index; i++) {
+    h = encryptBlock(h, BLOCK_55);
+  }
+  return encryptBlock(h, BLOCK_AA);
+}
+
+/**
+ * LRP 평가 (Algorithm 3) - 입력을 상위 니블부터 순서대로 처리
+ */
+function evalLRP(plaintexts: Buffer[], updatedKey: Buffer, input: Buffer, final: boolean): Buffer {
+  let y = updatedKey;
+  for (let i = 0; i < input.length; i++) {
+    y = encryptBlock(y, plaintexts[input[i] >> 4]);
+    y = encryptBlock(y, plaintexts[input[i] & 0x0f]);
+  }
+  if (final) {
+    y = encryptBlock(y, BLOCK_00);
+  }
+  return y;
+}
+
+/**
+ * 카운터 증가 (같은 길이 내에서 순환)
+ */
+function incrementCounter(counter: Buffer): Buffer {
+  const next = Buffer.from(counter);
+  for (let i = next.length - 1; i >= 0; i--) {
+    next[i] = (next[i] + 1) & 0xff;
+    if (next[i] !== 0) {
+      break;
+    }
+  }
+  return next;
+}
+
+/**
+ * GF(2^128)에서 2배 (CMAC 서브키 생성)
+ */
+function multiplyByTwo(input: Buffer): Buffer {
+  const output = Buffer.alloc(16);
+  for (let i = 0; i < 15; i++) {
+    output[i] = ((input[i] << 1) | (input[i + 1] >> 7)) & 0xff;
+  }
+  output[15] = (input[15] << 1) & 0xff;
+  if (input[0] & 0x80) {
+    output[15] ^= 0x87;
+  }
+  return output;
+}
+
+/**
+ * 같은 길이 블록 XOR
+ */
+function xor(a: Buffer, b: Buffer): Buffer {
+  const out = Buffer.alloc(a.length);
+  for (let i = 0; i < a.length; i++) {
+    out[i] = a[i] ^ b[i];
+  }
+  return out;
+}
+
+/**
+ * LRICB 암호화 (Algorithm 4, 패딩 없음 - 입력은 16바이트 배수)
+ */
+export function lricbEncrypt(key: Buffer, keyIndex: number, counter: Buffer, data: Buffer): Buffer {
+  if (data.length % 16 !== 0) {
+    throw new Error('LRICB input length must be a multiple of 16 bytes');
+  }
+
+  const plaintexts = generatePlaintexts(key);
+  const updatedKey = generateUpdatedKey(key, keyIndex);
+  const blocks: Buffer[] = [];
+  let ctr = counter;
+
+  for (let offset = 0; offset < data.length; offset += 16) {
+    const y = evalLRP(plaintexts, updatedKey, ctr, true);
+    blocks.push(encryptBlock(y, data.subarray(offset, offset + 16)));
+    ctr = incrementCounter(ctr);
+  }
+
+  return Buffer.concat(blocks);
+}
+
+/**
+ * LRICB 복호화 (Algorithm 5, 패딩 없음 - 입력은 16바이트 배수)
+ */
+export function lricbDecrypt(key: Buffer, keyIndex: number, counter: Buffer, data: Buffer): Buffer {
+  if (data.length % 16 !== 0) {
+    throw new Error('LRICB input length must be a multiple of 16 bytes');
+  }
+
+  const plaintexts = generatePlaintexts(key);
+  const updatedKey = generateUpdatedKey(key, keyIndex);
+  const blocks: Buffer[] = [];
+  let ctr = counter;
+
+  for (let offset = 0; offset < data.length; offset += 16) {
+    const y = evalLRP(plaintexts, updatedKey, ctr, true);
+    blocks.push(decryptBlock(y, data.subarray(offset, offset + 16)));
+    ctr = incrementCounter(ctr);
+  }
+
+  return Buffer.concat(blocks);
+}
+
+/**
+ * CMAC_LRP (블록 암호 대신 LRP 평가를 사용하는 CMAC)
+ */
+export function lrpCmac(key: Buffer, keyIndex: number, message: Buffer): Buffer {
+  const plaintexts = generatePlaintexts(key);
+  const updatedKey = generateUpdatedKey(key, keyIndex);
+
+  const k0 = evalLRP(plaintexts, updatedKey, BLOCK_00, true);
+  const k1 = multiplyByTwo(k0);
+  const k2 = multiplyByTwo(k1);
+
+  const blockCount = Math.max(1, Math.ceil(message.length / 16));
+  const lastComplete = message.length > 0 && message.length % 16 === 0;
+
+  let y: Buffer = Buffer.alloc(16, 0);
+  for (let i = 0; i < blockCount - 1; i++) {
+    y = evalLRP(plaintexts, updatedKey, xor(y, message.subarray(i * 16, i * 16 + 16)), true);
+  }
+
+  const last = Buffer.alloc(16, 0);
+  const remaining = message.subarray((blockCount - 1) * 16);
+  remaining.copy(last);
+  if (lastComplete) {
+    y = xor(xor(y, last), k1);
+  } else {
+    last[remaining.length] = 0x80;
+    y = xor(xor(y, last), k2);
+  }
+
+  return evalLRP(plaintexts, updatedKey, y, true);
+}
@@ -1,26 +1,120 @@
-import { createDecipheriv } from 'crypto';
-import { isCounterUsed, getMaxCounter, saveCounter } from './kv';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { consumeCounter, getMaxCounter, getTagKeyVersion, setTagKeyVersion } from './kv';
+import { VerificationErrorCode } from './errors';
 import { aesCmac } from 'node-aes-cmac';
+import { SDMKeyProvider, SDMKeyring, SDMKeyVersion, createKeyring, createStaticKeyProvider } from './keys';
+import { lricbDecrypt, lricbEncrypt, lrpCmac } from './lrp';
 
 /**
  * NTAG424 태그 검증 및 리플레이 공격 방어 유틸리티
  */
 
 interface NTAG424Data {
-  piccData: string;
+  // encrypted: PICC 데이터 암호화 미러링 (기본값) / plain: UID와 카운터를 평문으로 미러링
+  mirroring?: 'encrypted' | 'plain';
+  piccData?: string;
   cmac: string;
+  encFileData?: string;
+  ttStatus?: string;
+  url?: string;
   counter?: number;
   uid?: string;
 }
 
-interface VerificationResult {
-  valid: boolean;
-  reason?: string;
-  uid?: string;
+/**
+ * 검증 결과 (valid로 구분 - 실패 시 code와 설명)
+ */
+type VerificationResult = VerificationSuccess | VerificationFailure;
+
+interface VerificationSuccess {
+  valid: true;
+  uid: string;
   counter?: number;
   decryptedData?: string;
+  fileData?: string;
+  cryptoMode?: SDMCryptoMode;
+  tamper?: TagTamperStatus;
+  keyVersion?: number;
+  keyRetired?: boolean;
+}
+
+interface VerificationFailure {
+  valid: false;
+  code: VerificationErrorCode;
+  reason: string;
+  uid?: string;
+  counter?: number;
+}
+
+/**
+ * 복호화된 PICC 데이터 (PICCDataTag 플래그에 따라 UID / 카운터가 없을 수 있음)
+ */
+export interface PICCData {
+  tag: number;
+  uidMirrored: boolean;
+  counterMirrored: boolean;
+  uid?: string;
+  counter?: number;
+}
+
+const PICC_TAG_UID_MIRROR = 0x80;
+const PICC_TAG_COUNTER_MIRROR = 0x40;
+const PICC_TAG_RFU_MASK = 0x30;
+const PICC_TAG_UID_LENGTH_MASK = 0x0f;
+const UID_LENGTH = 7;
+
+/**
+ * NTAG 424 DNA TT 루프 상태
+ */
+export type TamperState = 'closed' | 'opened' | 'invalid';
+
+/**
+ * NTAG 424 DNA TT 상태 (permanent: 한 번이라도 열린 적 있는지, current: 현재 루프 상태)
+ */
+export interface TagTamperStatus {
+  raw: string;
+  permanent: TamperState;
+  current: TamperState;
+  // SDMMACInput 범위에 포함되어 CMAC으로 인증되었는지 여부
+  authenticated: boolean;
+}
+
+/**
+ * TagTamper 상태 미러링 위치
+ * - param: URL 파라미터 (기본 tt)에 평문 미러링
+ * - fileData: 복호화된 SDMENCFileData의 offset 위치 (기본 0)
+ */
+export type TagTamperSource =
+  | { source: 'param'; param?: string }
+  | { source: 'fileData'; offset?: number };
+
+/**
+ * SDMMACInput 범위 설정 (태그의 SDM File Settings에 맞춰야 함)
+ * - empty: SDMMACInputOffset == SDMMACOffset (입력 데이터 없음)
+ * - param: 지정한 쿼리 파라미터 값의 시작부터 CMAC 값 직전까지
+ * - offset: NDEF 파일 기준 SDMMACInputOffset / SDMMACOffset
+ *   (uriFileOffset: URI 본문이 시작하는 파일 오프셋, 기본 7 / uriPrefix: URI 식별 코드로 생략된 접두사, 기본 https://)
+ */
+export type SDMMACLayout =
+  | { type: 'empty' }
+  | { type: 'param'; param: string }
+  | { type: 'offset'; macInputOffset: number; macOffset: number; uriFileOffset?: number; uriPrefix?: string };
+
+/**
+ * SDM 암호화 방식 (AES: AES-CBC/CMAC, LRP: LRICB/CMAC_LRP)
+ */
+export type SDMCryptoMode = 'aes' | 'lrp';
+
+interface VerifyOptions {
+  layout?: SDMMACLayout;
+  // 미지정 시 PICC 데이터 길이로 판별 (16바이트: AES, 24바이트: LRP), 평문 미러링은 AES
+  cryptoMode?: SDMCryptoMode;
+  // 미지정 시 tt 파라미터
+  tagTamper?: TagTamperSource;
 }
 
+const CMAC_PARAM_NAMES = ['cmac', 'c'];
+
 /**
  * Hex 문자열을 Buffer로 변환
  */
@@ -29,36 +123,52 @@ function hexToBuffer(hex: string): Buffer {
 }
 
 /**
- * SDM 세션 키 생성 (Session Vector 2 사용)
- * SV2 = 3CC3 || 0001 || 0080 || UID || SDMReadCtr || ZeroPadding (16 bytes)
+ * SDM 세션 벡터 구성 (16 bytes)
+ * SVx = Label || 0001 || 0080 [|| UID] [|| SDMReadCtr] || ZeroPadding
+ * - SV1 (C33C): SDM File Read ENC
+ * - SV2 (3CC3): SDM File Read MAC
+ * UID / SDMReadCtr는 미러링된 경우에만 포함
  */
-function generateSDMSessionKey(
-  baseKey: Buffer,
-  uid: string,
-  counter: number
-): Buffer {
-  // SV2 구성 (16 bytes)
-  const sv2 = Buffer.alloc(16, 0);
+function buildSessionVector(label: number, uid?: string, counter?: number): Buffer {
+  const sv = Buffer.alloc(16, 0);
 
-  // 3CC3 (2 bytes) - SDM File Read MAC 식별자
-  sv2.writeUInt16BE(0x3CC3, 0);
+  // Label (2 bytes) - 세션 키 용도 식별자
+  sv.writeUInt16BE(label, 0);
 
   // 0001 (2 bytes) - 상수
-  sv2.writeUInt16BE(0x0001, 2);
+  sv.writeUInt16BE(0x0001, 2);
 
   // 0080 (2 bytes) - 상수
-  sv2.writeUInt16BE(0x0080, 4);
+  sv.writeUInt16BE(0x0080, 4);
+
+  let offset = 6;
 
   // UID (7 bytes)
-  Buffer.from(uid, 'hex').copy(sv2, 6);
+  if (uid !== undefined) {
+    offset += Buffer.from(uid, 'hex').copy(sv, offset);
+  }
 
   // SDMReadCtr (3 bytes, little-endian)
-  sv2.writeUIntLE(counter, 13, 3);
+  if (counter !== undefined) {
+    sv.writeUIntLE(counter, offset, 3);
+  }
 
   // 나머지는 이미 0으로 초기화됨
+  return sv;
+}
+
+/**
+ * SDM 세션 키 생성 (Session Vector 2 사용)
+ * SV2 = 3CC3 || 0001 || 0080 || UID || SDMReadCtr || ZeroPadding (16 bytes)
+ */
+export function generateSDMSessionKey(
+  baseKey: Buffer,
+  uid?: string,
+  counter?: number
+): Buffer {
+  const sv2 = buildSessionVector(0x3CC3, uid, counter);
 
   console.log('[SESSION] SV2:', sv2.toString('hex'));
-  console.log('[SESSION] Base Key:', baseKey.toString('hex'));
 
   // KSesSDMFileReadMAC = CMAC(KSDMFileRead, SV2)
   const sessionKey = aesCmac(baseKey, sv2, { returnAsBuffer: true }) as Buffer;
@@ -69,13 +179,71 @@ function generateSDMSessionKey(
 }
 
 /**
- * AES-128 CMAC 검증 (node-aes-cmac 라이브러리 사용)
- * SDMMACInputOffset == SDMMACOffset인 경우 입력 데이터가 빈 버퍼
+ * SDM 파일 데이터 암호화 세션 키 생성 (Session Vector 1 사용)
+ * SV1 = C33C || 0001 || 0080 || UID || SDMReadCtr || ZeroPadding (16 bytes)
+ */
+function generateSDMEncSessionKey(
+  baseKey: Buffer,
+  uid?: string,
+  counter?: number
+): Buffer {
+  const sv1 = buildSessionVector(0xC33C, uid, counter);
+
+  console.log('[SESSION] SV1:', sv1.toString('hex'));
+
+  // KSesSDMFileReadENC = CMAC(KSDMFileRead, SV1)
+  return aesCmac(baseKey, sv1, { returnAsBuffer: true }) as Buffer;
+}
+
+/**
+ * LRP 모드 SDM 세션 마스터 키 생성
+ * SV = 0001 || 0080 [|| UID] [|| SDMReadCtr] || ZeroPadding || 1EE1 (16 bytes)
+ * KSesSDMFileReadMaster = CMAC_LRP(KSDMFileRead, SV)
+ * (MAC은 갱신 키 0, ENC는 갱신 키 1 사용)
+ */
+function generateLRPSessionKey(
+  baseKey: Buffer,
+  uid?: string,
+  counter?: number
+): Buffer {
+  const sv = Buffer.alloc(16, 0);
+  sv.writeUInt16BE(0x0001, 0);
+  sv.writeUInt16BE(0x0080, 2);
+  let offset = 4;
+  if (uid !== undefined) {
+    offset += Buffer.from(uid, 'hex').copy(sv, offset);
+  }
+  if (counter !== undefined) {
+    sv.writeUIntLE(counter, offset, 3);
+  }
+  sv.writeUInt16BE(0x1EE1, 14);
+
+  console.log('[SESSION] LRP SV:', sv.toString('hex'));
+
+  return lrpCmac(baseKey, 0, sv);
+}
+
+/**
+ * NTAG424는 CMAC의 홀수 바이트만 사용 (MACt)
+ * MACt = CMAC[1] || CMAC[3] || CMAC[5] || CMAC[7] || CMAC[9] || CMAC[11] || CMAC[13] || CMAC[15]
+ */
+export function truncateMAC(fullMAC: Buffer): Buffer {
+  const truncated = Buffer.alloc(8);
+  for (let i = 0; i < 8; i++) {
+    truncated[i] = fullMAC[i * 2 + 1];
+  }
+  return truncated;
+}
+
+/**
+ * SDM CMAC 검증 (AES: node-aes-cmac, LRP: CMAC_LRP)
+ * 입력 데이터는 buildMACInput으로 재구성한 SDMMACInput 범위
  */
 function verifyCMAC(
   piccData: Buffer,
   cmac: Buffer,
-  key: Buffer
+  key: Buffer,
+  cryptoMode: SDMCryptoMode = 'aes'
 ): boolean {
   try {
     // CMAC의 길이가 적절한지 확인 (8바이트)
@@ -84,17 +252,14 @@ function verifyCMAC(
       return false;
     }
 
-    // node-aes-cmac을 사용하여 CMAC 계산 (Buffer 반환 옵션 사용)
-    const calculatedCMAC = aesCmac(key, piccData, { returnAsBuffer: true }) as Buffer;
+    // AES 모드는 node-aes-cmac 사용 (Buffer 반환 옵션 사용), LRP 모드는 갱신 키 0의 CMAC_LRP
+    const calculatedCMAC = cryptoMode === 'lrp'
+      ? lrpCmac(key, 0, piccData)
+      : aesCmac(key, piccData, { returnAsBuffer: true }) as Buffer;
 
     console.log('[CMAC] Full 16-byte CMAC:', calculatedCMAC.toString('hex'));
 
-    // NTAG424는 CMAC의 홀수 바이트만 사용 (MACt)
-    // MACt = CMAC[1] || CMAC[3] || CMAC[5] || CMAC[7] || CMAC[9] || CMAC[11] || CMAC[13] || CMAC[15]
-    const truncatedCMAC = Buffer.alloc(8);
-    for (let i = 0; i < 8; i++) {
-      truncatedCMAC[i] = calculatedCMAC[i * 2 + 1];
-    }
+    const truncatedCMAC = truncateMAC(calculatedCMAC);
 
     console.log('[CMAC] Expected:', cmac.toString('hex'));
     console.log('[CMAC] Calculated (odd bytes):', truncatedCMAC.toString('hex'));
@@ -109,6 +274,184 @@ function verifyCMAC(
   }
 }
 
+/**
+ * URL 원문에서 쿼리 파라미터 값이 시작하는 문자 위치 찾기
+ */
+function findParamValueIndex(url: string, names: string[]): number {
+  for (const name of names) {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`[?&]${escaped}=`).exec(url);
+    if (match) {
+      return match.index + match[0].length;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 스캔된 URL에서 SDMMACInput 범위(문자 위치) 계산
+ * DynamicFileData[SDMMACInputOffset :: SDMMACOffset - 1], 빈 입력이면 null
+ */
+function getMACInputRange(
+  layout: SDMMACLayout,
+  url: string | undefined,
+  cmacHex: string
+): { start: number; end: number } | null {
+  if (layout.type === 'empty') {
+    return null;
+  }
+
+  if (!url) {
+    throw new Error('Full URL is required for the configured SDMMACInput layout');
+  }
+
+  let start: number;
+  let end: number;
+
+  if (layout.type === 'param') {
+    start = findParamValueIndex(url, [layout.param]);
+    end = findParamValueIndex(url, CMAC_PARAM_NAMES);
+    if (start < 0) {
+      throw new Error(`MAC input parameter not found in URL: ${layout.param}`);
+    }
+  } else {
+    const uriFileOffset = layout.uriFileOffset ?? 7;
+    const uriPrefix = layout.uriPrefix ?? 'https://';
+    if (!url.startsWith(uriPrefix)) {
+      throw new Error(`URL does not start with expected prefix: ${uriPrefix}`);
+    }
+    start = layout.macInputOffset - uriFileOffset + uriPrefix.length;
+    end = layout.macOffset - uriFileOffset + uriPrefix.length;
+
+    // SDMMACOffset 위치에 실제 CMAC 값이 있는지 확인 (레이아웃 설정 오류 감지)
+    if (url.substring(end, end + cmacHex.length).toUpperCase() !== cmacHex.toUpperCase()) {
+      throw new Error('SDMMACOffset does not point to the CMAC in URL');
+    }
+  }
+
+  if (end < 0 || start < 0 || start > end) {
+    throw new Error('Invalid SDMMACInput range');
+  }
+
+  return { start, end };
+}
+
+/**
+ * 스캔된 URL과 레이아웃으로부터 CMAC 입력 데이터 재구성
+ */
+function buildMACInput(url: string | undefined, range: { start: number; end: number } | null): Buffer {
+  if (!range || !url) {
+    return Buffer.alloc(0);
+  }
+  return Buffer.from(url.substring(range.start, range.end), 'ascii');
+}
+
+/**
+ * URL 파라미터 값 전체가 SDMMACInput 범위 안에 있는지 확인 (CMAC으로 인증된 값인지)
+ */
+function isParamAuthenticated(
+  url: string | undefined,
+  range: { start: number; end: number } | null,
+  param: string,
+  valueLength: number
+): boolean {
+  if (!url || !range) {
+    return false;
+  }
+  const index = findParamValueIndex(url, [param]);
+  return index >= range.start && index + valueLength <= range.end;
+}
+
+/**
+ * TagTamper 상태 문자 해석 (C: closed, O: opened, 그 외: invalid)
+ */
+function decodeTamperState(value: string): TamperState {
+  switch (value.toUpperCase()) {
+    case 'C':
+      return 'closed';
+    case 'O':
+      return 'opened';
+    default:
+      return 'invalid';
+  }
+}
+
+/**
+ * TagTamper 상태 파싱 (TTPermStatus || TTCurrStatus, ASCII 2문자)
+ */
+function parseTamperStatus(raw: string, authenticated: boolean): TagTamperStatus | null {
+  if (raw.length !== 2) {
+    return null;
+  }
+  return {
+    raw: raw.toUpperCase(),
+    permanent: decodeTamperState(raw[0]),
+    current: decodeTamperState(raw[1]),
+    authenticated,
+  };
+}
+
+/**
+ * 환경 변수로부터 SDMMACInput 레이아웃 생성
+ * - NTAG424_MAC_INPUT_PARAM: 해당 파라미터 값부터 MAC 입력 (예: enc, picc_data)
+ * - NTAG424_MAC_INPUT_OFFSET / NTAG424_MAC_OFFSET: NDEF 파일 기준 오프셋
+ * - NTAG424_URI_FILE_OFFSET: URI 본문 시작 파일 오프셋 (선택)
+ */
+export function getSDMLayoutFromEnv(): SDMMACLayout {
+  const param = process.env.NTAG424_MAC_INPUT_PARAM;
+  if (param) {
+    return { type: 'param', param };
+  }
+
+  const macInputOffset = process.env.NTAG424_MAC_INPUT_OFFSET;
+  const macOffset = process.env.NTAG424_MAC_OFFSET;
+  if (macInputOffset && macOffset) {
+    const uriFileOffset = process.env.NTAG424_URI_FILE_OFFSET;
+    return {
+      type: 'offset',
+      macInputOffset: parseInt(macInputOffset, 10),
+      macOffset: parseInt(macOffset, 10),
+      uriFileOffset: uriFileOffset ? parseInt(uriFileOffset, 10) : undefined,
+    };
+  }
+
+  return { type: 'empty' };
+}
+
+/**
+ * TagTamper 봉인이 열렸는지 확인 (한 번이라도 열렸거나 현재 열린 상태)
+ */
+export function isSealOpened(tamper: TagTamperStatus): boolean {
+  return tamper.permanent === 'opened' || tamper.current === 'opened';
+}
+
+/**
+ * 환경 변수로부터 TagTamper 상태 미러링 위치 생성
+ * - NTAG424_TT_SOURCE: param (기본) 또는 file
+ * - NTAG424_TT_PARAM: TT 상태 파라미터 이름 (기본 tt)
+ * - NTAG424_TT_FILE_OFFSET: 복호화된 파일 데이터 내 TT 상태 위치 (기본 0)
+ */
+export function getTagTamperSourceFromEnv(): TagTamperSource {
+  if (process.env.NTAG424_TT_SOURCE === 'file') {
+    const offset = process.env.NTAG424_TT_FILE_OFFSET;
+    return { source: 'fileData', offset: offset ? parseInt(offset, 10) : undefined };
+  }
+  return { source: 'param', param: process.env.NTAG424_TT_PARAM || undefined };
+}
+
+/**
+ * 환경 변수로부터 태그별 암호화 방식 조회
+ * - NTAG424_LRP_UIDS: LRP 모드로 설정된 태그 UID 목록 (쉼표 구분)
+ * 목록에 없으면 undefined를 반환하여 PICC 데이터 길이로 판별하도록 함
+ */
+export function getCryptoModeFromEnv(uid: string): SDMCryptoMode | undefined {
+  const lrpUids = (process.env.NTAG424_LRP_UIDS || '')
+    .split(',')
+    .map((value) => value.trim().toUpperCase())
+    .filter(Boolean);
+  return lrpUids.includes(uid.toUpperCase()) ? 'lrp' : undefined;
+}
+
 /**
  * SUN 메시지 해독 (SDM 데이터)
  */
@@ -126,10 +469,110 @@ function decryptSUNMessage(
   return decrypted;
 }
 
+/**
+ * SDMENCFileData 복호화
+ * - AES: IVe = E(KSesSDMFileReadENC; SDMReadCtr || 0x00 * 13), AES-CBC 복호화
+ * - LRP: KSesSDMFileReadMaster의 갱신 키 1로 LRICB 복호화 (카운터 = SDMReadCtr || 000000)
+ */
+function decryptFileData(
+  encFileData: Buffer,
+  encSessionKey: Buffer,
+  counter: number,
+  cryptoMode: SDMCryptoMode = 'aes'
+): Buffer {
+  if (encFileData.length === 0 || encFileData.length % 16 !== 0) {
+    throw new Error('SDMENCFileData length must be a multiple of 16 bytes');
+  }
+
+  if (cryptoMode === 'lrp') {
+    const lrpCounter = Buffer.alloc(6, 0);
+    lrpCounter.writeUIntLE(counter, 0, 3);
+    return lricbDecrypt(encSessionKey, 1, lrpCounter, encFileData);
+  }
+
+  const ivInput = Buffer.alloc(16, 0);
+  ivInput.writeUIntLE(counter, 0, 3);
+
+  const cipher = createCipheriv('aes-128-ecb', encSessionKey, null);
+  cipher.setAutoPadding(false);
+  const iv = Buffer.concat([cipher.update(ivInput), cipher.final()]);
+
+  return decryptSUNMessage(encFileData, encSessionKey, iv);
+}
+
+/**
+ * PICC 데이터 길이로 암호화 방식 판별
+ * AES: 16바이트 암호문 / LRP: PICCRand (8바이트) + 16바이트 암호문
+ */
+function detectCryptoMode(piccData: Buffer): SDMCryptoMode {
+  return piccData.length === 24 ? 'lrp' : 'aes';
+}
+
+/**
+ * 암호화된 PICC 데이터 복호화 (KSDMMetaRead)
+ * - AES: IV = 0 인 AES-CBC
+ * - LRP: PICCRand를 카운터로 하는 LRICB (갱신 키 0)
+ */
+function decryptPICCData(encrypted: Buffer, key: Buffer, cryptoMode: SDMCryptoMode): Buffer {
+  if (cryptoMode === 'lrp') {
+    if (encrypted.length !== 24) {
+      throw new Error('LRP PICC data must be 24 bytes (PICCRand + encrypted data)');
+    }
+    return lricbDecrypt(key, 0, encrypted.subarray(0, 8), encrypted.subarray(8));
+  }
+
+  return decryptSUNMessage(encrypted, key, Buffer.alloc(16, 0));
+}
+
+/**
+ * 복호화된 PICC 데이터 디코딩
+ * PICCDataTag (1바이트) [|| UID (7바이트)] [|| SDMReadCtr (3바이트, LE)] || 패딩
+ * PICCDataTag: bit7 = UID 미러링, bit6 = SDMReadCtr 미러링, bit5-4 = RFU (0), bit3-0 = UID 길이 (7)
+ */
+function decodePICCData(plaintext: Buffer): PICCData | null {
+  if (plaintext.length < 1) {
+    return null;
+  }
+
+  const tag = plaintext[0];
+  const uidMirrored = (tag & PICC_TAG_UID_MIRROR) !== 0;
+  const counterMirrored = (tag & PICC_TAG_COUNTER_MIRROR) !== 0;
+
+  if ((tag & PICC_TAG_RFU_MASK) !== 0 || (tag & PICC_TAG_UID_LENGTH_MASK) !== UID_LENGTH) {
+    console.warn('[NTAG424] Invalid PICCDataTag:', tag.toString(16).padStart(2, '0'));
+    return null;
+  }
+
+  if (!uidMirrored && !counterMirrored) {
+    console.warn('[NTAG424] PICCDataTag mirrors neither UID nor SDMReadCtr');
+    return null;
+  }
+
+  const requiredLength = 1 + (uidMirrored ? UID_LENGTH : 0) + (counterMirrored ? 3 : 0);
+  if (plaintext.length < requiredLength) {
+    return null;
+  }
+
+  const result: PICCData = { tag, uidMirrored, counterMirrored };
+  let offset = 1;
+
+  if (uidMirrored) {
+    result.uid = plaintext.subarray(offset, offset + UID_LENGTH).toString('hex').toUpperCase();
+    offset += UID_LENGTH;
+  }
+
+  if (counterMirrored) {
+    // NTAG424는 Little-endian 사용
+    result.counter = plaintext.readUIntLE(offset, 3);
+  }
+
+  return result;
+}
+
 /**
  * PICC 데이터에서 카운터와 UID 추출 (복호화된 데이터에서)
  */
-function parsePICCData(piccData: string, aesKey?: string): { uid: string; counter: number } | null {
+function parsePICCData(piccData: string, aesKey?: string): PICCData | null {
   try {
     const buffer = hexToBuffer(piccData);
 
@@ -143,161 +586,481 @@ function parsePICCData(piccData: string, aesKey?: string): { uid: string; counte
     if (aesKey) {
       try {
         const key = hexToBuffer(aesKey);
-        // IV는 0으로 채워진 16바이트 (NTAG424 SDM 기본값)
-        const iv = Buffer.alloc(16, 0);
+        const cryptoMode = detectCryptoMode(buffer);
 
-        // PICC 데이터가 16바이트 블록 단위인지 확인
-        if (buffer.length % 16 !== 0) {
+        // PICC 데이터가 16바이트 블록 단위인지 확인 (LRP는 PICCRand 8바이트 포함)
+        if (cryptoMode === 'aes' && buffer.length % 16 !== 0) {
           console.warn('[NTAG424] PICC data length not aligned to 16 bytes, using as-is');
         } else {
           // 복호화 수행
-          dataBuffer = decryptSUNMessage(buffer, key, iv);
-          console.log('[NTAG424] Decrypted PICC data:', dataBuffer.toString('hex'));
+          dataBuffer = decryptPICCData(buffer, key, cryptoMode);
+          console.log('[NTAG424] Decrypted PICC data:', dataBuffer.toString('hex'), `(${cryptoMode})`);
         }
       } catch (decryptError) {
         console.warn('[NTAG424] Decryption failed, using raw data:', decryptError);
       }
     }
 
-    // 복호화된 데이터 형식: PICCDataTag (1바이트) + UID (7바이트) + Counter (3바이트) + ...
-    if (dataBuffer.length < 11) {
-      return null;
-    }
-
-    // PICCDataTag (첫 1바이트) 건너뛰고 UID 추출
-    const uid = dataBuffer.subarray(1, 8).toString('hex').toUpperCase();
-
-    // NTAG424는 Little-endian 사용
-    const counter = dataBuffer.readUIntLE(8, 3);
-
-    return { uid, counter };
+    return decodePICCData(dataBuffer);
   } catch (error) {
     console.error('[NTAG424] Parse error:', error);
     return null;
   }
 }
 
+/**
+ * 평문 미러링 값 파싱 (uid=7바이트 hex, ctr=3바이트 hex MSB 우선)
+ */
+function parsePlainMirror(uid: string, ctr: string): { uid: string; counter: number } | null {
+  if (!/^[0-9A-Fa-f]{14}$/.test(uid) || !/^[0-9A-Fa-f]{6}$/.test(ctr)) {
+    return null;
+  }
+  return { uid: uid.toUpperCase(), counter: parseInt(ctr, 16) };
+}
+
 /**
  * PICC 데이터 파싱 (외부에서 사용 가능)
  */
-export function parseNTAG424Data(piccData: string, aesKey?: string): { uid: string; counter: number } | null {
+export function parseNTAG424Data(piccData: string, aesKey?: string): PICCData | null {
   return parsePICCData(piccData, aesKey);
 }
 
 /**
- * 리플레이 공격 체크 (Vercel KV 사용)
+ * 평문 미러링 값 파싱 (외부에서 사용 가능)
  */
-async function checkReplayAttack(uid: string, counter: number): Promise<boolean> {
-  // 이미 사용된 카운터인지 확인
-  const used = await isCounterUsed(uid, counter);
-  if (used) {
-    return false; // 리플레이 공격 감지
-  }
+export function parseNTAG424PlainMirror(uid: string, ctr: string): { uid: string; counter: number } | null {
+  return parsePlainMirror(uid, ctr);
+}
 
-  // 카운터가 이전 최대값보다 작으면 리플레이 공격 가능성
-  const maxCounter = await getMaxCounter(uid);
-  if (counter <= maxCounter) {
-    return false;
+/**
+ * 태그 데이터에서 UID와 카운터 추출 (미러링 방식에 따라 복호화 또는 평문 사용)
+ * CMAC 검증 전 값이므로 소유자 조회 등 사전 확인 용도로만 사용
+ * UID가 미러링되지 않은 태그는 식별할 수 없으므로 null
+ */
+export function getTagIdentity(data: NTAG424Data, aesKey?: string): { uid: string; counter?: number } | null {
+  if (data.mirroring === 'plain') {
+    if (!data.uid || data.counter === undefined) {
+      return null;
+    }
+    return { uid: data.uid.toUpperCase(), counter: data.counter };
   }
+  if (!data.piccData) {
+    return null;
+  }
+  const parsed = parsePICCData(data.piccData, aesKey);
+  if (!parsed?.uid) {
+    return null;
+  }
+  return { uid: parsed.uid, counter: parsed.counter };
+}
 
-  // 카운터 저장
-  await saveCounter(uid, counter);
-
-  return true;
+/**
+ * 리플레이 공격 체크 (lib/kv 저장소 사용)
+ * 이미 사용되었거나 이전 최대값 이하인 카운터는 거부, 통과 시 카운터 저장 (원자적 처리)
+ */
+async function checkReplayAttack(uid: string, counter: number): Promise<boolean> {
+  return consumeCounter(uid, counter);
 }
 
 /**
- * NTAG424 태그 검증 (리플레이 공격 방어 포함)
+ * 단일 키 버전으로 SUN 메시지 검증 (복호화, CMAC, 파일 데이터, TT 상태 - 리플레이 검사 제외)
  */
-export async function verifyNTAG424(
+async function verifyWithKeys(
   data: NTAG424Data,
-  aesKey: string,
-  skipReplayCheck: boolean = false
+  keyProvider: SDMKeyProvider,
+  options: VerifyOptions
 ): Promise<VerificationResult> {
   try {
-    const key = hexToBuffer(aesKey);
-    const piccDataEncrypted = hexToBuffer(data.piccData);
     const cmac = hexToBuffer(data.cmac);
 
-    // 1. PICC 데이터 복호화
-    const iv = Buffer.alloc(16, 0);
-    const piccDataDecrypted = decryptSUNMessage(piccDataEncrypted, key, iv);
+    let uid: string;
+    let counter: number | undefined;
+    let decryptedData: string | undefined;
+    let cryptoMode: SDMCryptoMode = options.cryptoMode ?? 'aes';
 
-    // 2. PICC 데이터 파싱
-    const parsed = parsePICCData(data.piccData, aesKey);
-    if (!parsed) {
-      return {
-        valid: false,
-        reason: 'Invalid PICC data format',
-      };
-    }
+    if (data.mirroring === 'plain') {
+      // 1-2. 평문 미러링: UID와 카운터를 그대로 사용 (CMAC으로만 인증)
+      const identity = getTagIdentity(data);
+      if (!identity) {
+        return {
+          valid: false,
+          code: 'BAD_FORMAT',
+          reason: 'Invalid plain mirror format',
+        };
+      }
+      ({ uid, counter } = identity);
+    } else {
+      if (!data.piccData) {
+        return {
+          valid: false,
+          code: 'BAD_FORMAT',
+          reason: 'Invalid PICC data format',
+        };
+      }
+
+      const metaReadKey = await keyProvider.getMetaReadKey();
+      const piccDataEncrypted = hexToBuffer(data.piccData);
+      cryptoMode = options.cryptoMode ?? detectCryptoMode(piccDataEncrypted);
 
-    const { uid, counter } = parsed;
+      // 1. PICC 데이터 복호화 (KSDMMetaRead)
+      const piccDataDecrypted = decryptPICCData(piccDataEncrypted, metaReadKey, cryptoMode);
+      decryptedData = piccDataDecrypted.toString('hex');
 
-    // 3. SDM 세션 키 생성
-    // KSesSDMFileReadMAC = CMAC(KSDMFileRead, SV2)
-    const sessionKey = generateSDMSessionKey(key, uid, counter);
+      // 2. PICC 데이터 파싱
+      const parsed = decodePICCData(piccDataDecrypted);
+      if (!parsed) {
+        return {
+          valid: false,
+          code: 'DECRYPT_FAILED',
+          reason: 'Invalid PICC data format',
+        };
+      }
+
+      // UID 없이는 태그별 키, 소유자, 카운터를 조회할 수 없음
+      if (!parsed.uid) {
+        return {
+          valid: false,
+          code: 'BAD_FORMAT',
+          reason: 'PICC data does not mirror UID',
+          counter: parsed.counter,
+        };
+      }
+
+      uid = parsed.uid;
+      counter = parsed.counter;
+    }
+
+    // 3. SDM 세션 키 생성 (UID별 KSDMFileRead)
+    // AES: KSesSDMFileReadMAC = CMAC(KSDMFileRead, SV2)
+    // LRP: KSesSDMFileReadMaster = CMAC_LRP(KSDMFileRead, SV)
+    const fileReadKey = await keyProvider.getFileReadKey(uid);
+    const sessionKey = cryptoMode === 'lrp'
+      ? generateLRPSessionKey(fileReadKey, uid, counter)
+      : generateSDMSessionKey(fileReadKey, uid, counter);
 
     // 4. CMAC 입력 데이터 생성
-    // SDMMACInputOffset == SDMMACOffset인 경우 빈 입력 사용
-    // (DynamicFileData[SDMMACInputOffset :: SDMMACOffset - 1] = zero length)
-    const cmacInputData = Buffer.alloc(0); // 빈 버퍼
+    // DynamicFileData[SDMMACInputOffset :: SDMMACOffset - 1]
+    // 레이아웃 미지정 시 SDMMACInputOffset == SDMMACOffset (빈 입력)
+    const layout = options.layout ?? { type: 'empty' };
+    const macInputRange = getMACInputRange(layout, data.url, data.cmac);
+    const cmacInputData = buildMACInput(data.url, macInputRange);
 
-    console.log('[CMAC] Input data length:', cmacInputData.length, 'bytes (zero-length for SDMMACInputOffset == SDMMACOffset)');
+    console.log('[CMAC] Input data length:', cmacInputData.length, 'bytes (layout:', layout.type + ')');
 
     // 5. CMAC 검증 (세션 키 사용)
-    if (!verifyCMAC(cmacInputData, cmac, sessionKey)) {
+    if (!verifyCMAC(cmacInputData, cmac, sessionKey, cryptoMode)) {
       return {
         valid: false,
+        code: 'MAC_MISMATCH',
         reason: 'CMAC verification failed',
         uid,
         counter,
       };
     }
 
-    // 5. 리플레이 공격 체크 (옵션)
-    if (!skipReplayCheck && !(await checkReplayAttack(uid, counter))) {
+    // 5-1. SDMENCFileData 복호화 (있는 경우)
+    // AES: KSesSDMFileReadENC = CMAC(KSDMFileRead, SV1) / LRP: 세션 마스터 키 사용
+    let fileData: string | undefined;
+    if (data.encFileData) {
+      // SDMENCFileData는 UID와 SDMReadCtr 미러링이 모두 활성화된 경우에만 사용 가능
+      if (counter === undefined) {
+        throw new Error('SDMENCFileData requires SDMReadCtr mirroring');
+      }
+      const encSessionKey = cryptoMode === 'lrp'
+        ? sessionKey
+        : generateSDMEncSessionKey(fileReadKey, uid, counter);
+      fileData = decryptFileData(hexToBuffer(data.encFileData), encSessionKey, counter, cryptoMode).toString('hex');
+    }
+
+    // 5-2. TagTamper 상태 (NTAG 424 DNA TT)
+    // SDMMACInput 범위 안에 미러링된 값만 인증된 것으로 취급
+    let tamper: TagTamperStatus | undefined;
+    const tamperConfig = options.tagTamper ?? { source: 'param' };
+    if (tamperConfig.source === 'param') {
+      const param = tamperConfig.param ?? 'tt';
+      const raw = (data.url ? new URL(data.url).searchParams.get(param) : null) ?? data.ttStatus;
+      if (raw) {
+        const authenticated = isParamAuthenticated(data.url, macInputRange, param, raw.length);
+        tamper = parseTamperStatus(raw, authenticated) ?? undefined;
+      }
+    } else if (fileData) {
+      const offset = tamperConfig.offset ?? 0;
+      const raw = Buffer.from(fileData, 'hex').subarray(offset, offset + 2).toString('ascii');
+      const authenticated = isParamAuthenticated(data.url, macInputRange, 'enc', data.encFileData?.length ?? 0);
+      tamper = parseTamperStatus(raw, authenticated) ?? undefined;
+    }
+
+    if (tamper) {
+      console.log('[TAMPER] Status:', tamper);
+    }
+
+    return {
+      valid: true,
+      uid,
+      counter,
+      cryptoMode,
+      decryptedData,
+      fileData,
+      tamper,
+    };
+  } catch (error) {
+    return {
+      valid: false,
+      code: 'DECRYPT_FAILED',
+      reason: `Verification error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * 검증에 사용할 키 목록으로 변환 (단일 키 / 키 제공자는 버전 1)
+ */
+function toKeyring(keys: string | SDMKeyProvider | SDMKeyring): SDMKeyring {
+  if (typeof keys === 'string') {
+    return createKeyring([{ version: 1, provider: createStaticKeyProvider(keys) }]);
+  }
+  if (Array.isArray(keys)) {
+    return keys;
+  }
+  return createKeyring([{ version: 1, provider: keys }]);
+}
+
+/**
+ * 키 목록에서 태그 UID 확인 (암호화 미러링은 첫 번째로 복호화되는 MetaRead 키 사용)
+ */
+async function resolveIdentity(data: NTAG424Data, keyring: SDMKeyring): Promise<{ uid: string; counter?: number } | null> {
+  if (data.mirroring === 'plain') {
+    return getTagIdentity(data);
+  }
+
+  for (const entry of keyring) {
+    const metaReadKey = await entry.provider.getMetaReadKey();
+    const identity = getTagIdentity(data, metaReadKey.toString('hex'));
+    if (identity) {
+      return identity;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 키 목록의 MetaRead 키로 태그 UID와 카운터 추출 (외부에서 사용 가능)
+ * CMAC 검증 전 값이므로 소유자 조회 등 사전 확인 용도로만 사용
+ */
+export async function resolveTagIdentity(
+  data: NTAG424Data,
+  keys: string | SDMKeyProvider | SDMKeyring
+): Promise<{ uid: string; counter?: number } | null> {
+  return resolveIdentity(data, toKeyring(keys));
+}
+
+/**
+ * 검증 후보 키 순서 결정 - 태그에 기록된 키 버전을 먼저, 나머지는 최신 버전부터
+ */
+async function orderKeyCandidates(data: NTAG424Data, keyring: SDMKeyring): Promise<SDMKeyVersion[]> {
+  if (keyring.length < 2) {
+    return keyring;
+  }
+
+  const identity = await resolveIdentity(data, keyring);
+  const recordedVersion = identity ? await getTagKeyVersion(identity.uid) : null;
+  if (recordedVersion === null) {
+    return keyring;
+  }
+
+  return [
+    ...keyring.filter((entry) => entry.version === recordedVersion),
+    ...keyring.filter((entry) => entry.version !== recordedVersion),
+  ];
+}
+
+/**
+ * CMAC 검증을 통과한 결과의 카운터 사용 (리플레이 검사)
+ * 카운터가 사용된 경우에만 일치한 키 버전을 태그별로 기록 (재사용된 URL로 키 버전이 바뀌지 않도록)
+ * verifyNTAG424를 skipReplayCheck로 먼저 호출한 뒤, 소유자 확인 등을 거쳐 따로 호출할 수 있음
+ */
+export async function consumeTagCounter(result: VerificationSuccess): Promise<VerificationResult> {
+  const { uid, counter } = result;
+
+  if (counter === undefined) {
+    return {
+      valid: false,
+      code: 'BAD_FORMAT',
+      reason: 'Replay protection requires SDMReadCtr mirroring',
+      uid,
+    };
+  }
+
+  if (!(await checkReplayAttack(uid, counter))) {
+    // 같은 카운터 재사용과 이전 카운터로의 후퇴를 구분
+    const lastCounter = await getMaxCounter(uid);
+    if (counter < lastCounter) {
       return {
         valid: false,
-        reason: 'Replay attack detected - counter already used or invalid',
+        code: 'COUNTER_REGRESSION',
+        reason: `Counter regression - ${counter} is lower than the last used counter ${lastCounter}`,
         uid,
         counter,
       };
     }
-
-    // 4. 검증 성공
     return {
-      valid: true,
+      valid: false,
+      code: 'REPLAY',
+      reason: 'Replay attack detected - counter already used or invalid',
       uid,
       counter,
-      decryptedData: piccDataDecrypted.toString('hex'),
     };
+  }
+
+  // 일치한 키 버전 기록 (변경된 경우에만)
+  if (result.keyVersion !== undefined && (await getTagKeyVersion(uid)) !== result.keyVersion) {
+    await setTagKeyVersion(uid, result.keyVersion);
+  }
+
+  return result;
+}
+
+/**
+ * NTAG424 태그 검증 (리플레이 공격 방어 포함)
+ * keys: 단일 AES 키(hex, MetaRead/FileRead 공용), 키 제공자 또는 버전별 키 목록
+ * 키 목록이면 후보 키를 차례로 시도하고, 카운터가 사용되면 일치한 버전을 태그별로 기록
+ * 결과의 UID는 CMAC이 일치한 키로 복호화한 값
+ */
+export async function verifyNTAG424(
+  data: NTAG424Data,
+  keys: string | SDMKeyProvider | SDMKeyring,
+  skipReplayCheck: boolean = false,
+  options: VerifyOptions = {}
+): Promise<VerificationResult> {
+  try {
+    const candidates = await orderKeyCandidates(data, toKeyring(keys));
+
+    let result: VerificationSuccess | null = null;
+    let matched: SDMKeyVersion | null = null;
+    let firstFailure: VerificationFailure | null = null;
+
+    for (const entry of candidates) {
+      const attempt = await verifyWithKeys(data, entry.provider, options);
+      if (attempt.valid) {
+        result = attempt;
+        matched = entry;
+        break;
+      }
+
+      // PICC 데이터가 복호화된 (UID가 확인된) 시도의 실패 사유를 우선 보고
+      if (!firstFailure || (!firstFailure.uid && attempt.uid)) {
+        firstFailure = attempt;
+      }
+      console.log('[KEYS] Key version', entry.version, 'did not match:', attempt.reason);
+    }
+
+    if (!result || !matched) {
+      return firstFailure ?? { valid: false, code: 'CONFIGURATION', reason: 'No SDM keys configured' };
+    }
+
+    if (matched.retired) {
+      console.warn('[KEYS] Tag', result.uid, 'still uses retired key version', matched.version);
+    }
+
+    const verified: VerificationSuccess = {
+      ...result,
+      keyVersion: matched.version,
+      keyRetired: matched.retired ?? false,
+    };
+
+    // 6. 리플레이 공격 체크 (옵션)
+    return skipReplayCheck ? verified : await consumeTagCounter(verified);
   } catch (error) {
     return {
       valid: false,
+      code: 'INTERNAL',
       reason: `Verification error: ${error instanceof Error ? error.message : 'Unknown error'}`,
     };
   }
 }
 
+/**
+ * 검증 API 요청 본문 파싱
+ * url, (piccData, cmac[, encFileData]) 또는 평문 미러링 (uid, ctr, cmac) 중 하나 필요
+ * 형식이 잘못되면 오류 설명 반환
+ */
+export function parseVerificationRequest(body: {
+  url?: string;
+  piccData?: string;
+  cmac?: string;
+  encFileData?: string;
+  uid?: string;
+  ctr?: string;
+}): { data: NTAG424Data } | { message: string; reason?: string } {
+  const { url, piccData, cmac, encFileData, uid, ctr } = body;
+
+  if (url) {
+    const data = parseNTAG424URL(url);
+    return data ? { data } : { message: 'Invalid NTAG424 URL format' };
+  }
+
+  if (piccData && cmac) {
+    return { data: { piccData, cmac, encFileData } };
+  }
+
+  if (uid && ctr && cmac) {
+    const plain = parsePlainMirror(uid, ctr);
+    if (!plain) {
+      return { message: 'Invalid plain mirror format', reason: 'uid must be 7 bytes and ctr 3 bytes in hex' };
+    }
+    return { data: { mirroring: 'plain', cmac, uid: plain.uid, counter: plain.counter } };
+  }
+
+  return { message: 'Missing required parameters', reason: 'url, (piccData and cmac) or (uid, ctr and cmac) required' };
+}
+
 /**
  * URL에서 NTAG424 파라미터 추출
  */
 export function parseNTAG424URL(url: string, aesKey?: string): NTAG424Data | null {
   try {
     const urlObj = new URL(url);
-    const piccData = urlObj.searchParams.get('picc_data') || urlObj.searchParams.get('p') || urlObj.searchParams.get('enc');
+    const explicitPiccData = urlObj.searchParams.get('picc_data') || urlObj.searchParams.get('p');
+    const enc = urlObj.searchParams.get('enc');
     const cmac = urlObj.searchParams.get('cmac') || urlObj.searchParams.get('c');
+    const ttStatus = urlObj.searchParams.get('tt') ?? undefined;
+
+    // picc_data와 함께 오는 enc는 SDMENCFileData, 단독이면 기존처럼 PICC 데이터로 취급
+    const piccData = explicitPiccData || enc;
+    const encFileData = explicitPiccData && enc ? enc : undefined;
 
-    if (!piccData || !cmac) {
+    if (!cmac) {
       return null;
     }
 
+    // 평문 미러링 (uid=...&ctr=...&cmac=...)
+    if (!piccData) {
+      const plainUid = urlObj.searchParams.get('uid');
+      const plainCtr = urlObj.searchParams.get('ctr');
+      const plain = plainUid && plainCtr ? parsePlainMirror(plainUid, plainCtr) : null;
+      if (!plain) {
+        return null;
+      }
+
+      return {
+        mirroring: 'plain',
+        cmac,
+        ttStatus,
+        url,
+        uid: plain.uid,
+        counter: plain.counter,
+      };
+    }
+
     const parsed = parsePICCData(piccData, aesKey);
 
     return {
       piccData,
       cmac,
+      encFileData,
+      ttStatus,
+      url,
       counter: parsed?.counter,
       uid: parsed?.uid,
     };
@@ -306,3 +1069,171 @@ export function parseNTAG424URL(url: string, aesKey?: string): NTAG424Data | nul
   }
 }
 
+/**
+ * SUN 메시지 생성 파라미터 (verifyNTAG424의 역방향 - 시뮬레이션 / 테스트용)
+ * - url: 자리표시자가 포함된 URL 템플릿
+ *   {picc_data} (암호화 미러링) 또는 {uid} / {ctr} (평문 미러링), {enc}, {tt}, {cmac}
+ * - macInputFrom: SDMMACInput 시작 자리표시자 (생략 시 cmac = 빈 입력, 검증 측 레이아웃과 맞춰야 함)
+ * - fileData: {enc}에 암호화할 평문 (16바이트 배수)
+ * - ttStatus: {tt}에 미러링할 TagTamper 상태 (예: CC)
+ * - piccRand: LRP 모드 PICCRand (생략 시 난수)
+ */
+export interface SUNMessageParams {
+  url: string;
+  uid: string;
+  counter: number;
+  keys: string | SDMKeyProvider;
+  cryptoMode?: SDMCryptoMode;
+  macInputFrom?: SUNPlaceholder;
+  fileData?: Buffer;
+  ttStatus?: string;
+  piccRand?: Buffer;
+}
+
+export type SUNPlaceholder = 'picc_data' | 'uid' | 'ctr' | 'enc' | 'tt' | 'cmac';
+
+/**
+ * PICC 데이터 암호화 (decryptPICCData의 역방향)
+ * 평문 = PICCDataTag || UID || SDMReadCtr (LE) || 난수 패딩 (16바이트)
+ */
+function encryptPICCData(
+  uid: string,
+  counter: number,
+  key: Buffer,
+  cryptoMode: SDMCryptoMode,
+  piccRand: Buffer = randomBytes(8)
+): Buffer {
+  const plaintext = randomBytes(16);
+  plaintext[0] = PICC_TAG_UID_MIRROR | PICC_TAG_COUNTER_MIRROR | UID_LENGTH;
+  hexToBuffer(uid).copy(plaintext, 1);
+  plaintext.writeUIntLE(counter, 1 + UID_LENGTH, 3);
+
+  if (cryptoMode === 'lrp') {
+    if (piccRand.length !== 8) {
+      throw new Error('PICCRand must be 8 bytes');
+    }
+    return Buffer.concat([piccRand, lricbEncrypt(key, 0, piccRand, plaintext)]);
+  }
+
+  const cipher = createCipheriv('aes-128-cbc', key, Buffer.alloc(16, 0));
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(plaintext), cipher.final()]);
+}
+
+/**
+ * SDMENCFileData 암호화 (decryptFileData의 역방향)
+ */
+function encryptFileData(
+  fileData: Buffer,
+  encSessionKey: Buffer,
+  counter: number,
+  cryptoMode: SDMCryptoMode
+): Buffer {
+  if (fileData.length === 0 || fileData.length % 16 !== 0) {
+    throw new Error('SDMENCFileData length must be a multiple of 16 bytes');
+  }
+
+  if (cryptoMode === 'lrp') {
+    const lrpCounter = Buffer.alloc(6, 0);
+    lrpCounter.writeUIntLE(counter, 0, 3);
+    return lricbEncrypt(encSessionKey, 1, lrpCounter, fileData);
+  }
+
+  const ivInput = Buffer.alloc(16, 0);
+  ivInput.writeUIntLE(counter, 0, 3);
+
+  const ecb = createCipheriv('aes-128-ecb', encSessionKey, null);
+  ecb.setAutoPadding(false);
+  const iv = Buffer.concat([ecb.update(ivInput), ecb.final()]);
+
+  const cipher = createCipheriv('aes-128-cbc', encSessionKey, iv);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(fileData), cipher.final()]);
+}
+
+/**
+ * SUN 메시지 URL 생성 (태그가 탭될 때 만드는 것과 같은 URL)
+ * 자리표시자를 템플릿 순서대로 채운 뒤 macInputFrom부터 {cmac} 직전까지의 문자열로 CMAC 계산
+ */
+export async function generateSUNMessage(params: SUNMessageParams): Promise<string> {
+  const { uid, counter } = params;
+  const cryptoMode = params.cryptoMode ?? 'aes';
+  const keyProvider = typeof params.keys === 'string' ? createStaticKeyProvider(params.keys) : params.keys;
+
+  if (!/^[0-9A-Fa-f]{14}$/.test(uid)) {
+    throw new Error('UID must be 7 bytes in hex');
+  }
+  if (!Number.isInteger(counter) || counter < 0 || counter > 0xffffff) {
+    throw new Error('SDMReadCtr must be a 24-bit unsigned integer');
+  }
+
+  const fileReadKey = await keyProvider.getFileReadKey(uid.toUpperCase());
+  const sessionKey = cryptoMode === 'lrp'
+    ? generateLRPSessionKey(fileReadKey, uid, counter)
+    : generateSDMSessionKey(fileReadKey, uid, counter);
+
+  const values: Partial<Record<SUNPlaceholder, string>> = {
+    uid: uid.toUpperCase(),
+    ctr: counter.toString(16).toUpperCase().padStart(6, '0'),
+    tt: params.ttStatus,
+  };
+
+  if (params.url.includes('{picc_data}')) {
+    const metaReadKey = await keyProvider.getMetaReadKey();
+    values.picc_data = encryptPICCData(uid, counter, metaReadKey, cryptoMode, params.piccRand)
+      .toString('hex')
+      .toUpperCase();
+  }
+
+  if (params.fileData) {
+    // LRP는 세션 마스터 키에서 ENC 갱신 키를 사용
+    const encSessionKey = cryptoMode === 'lrp'
+      ? sessionKey
+      : generateSDMEncSessionKey(fileReadKey, uid, counter);
+    values.enc = encryptFileData(params.fileData, encSessionKey, counter, cryptoMode).toString('hex').toUpperCase();
+  }
+
+  // 자리표시자 치환 (위치 기록)
+  const positions: Partial<Record<SUNPlaceholder, number>> = {};
+  let url = '';
+  let rest = params.url;
+
+  for (;;) {
+    const match = /\{(picc_data|uid|ctr|enc|tt|cmac)\}/.exec(rest);
+    if (!match) {
+      url += rest;
+      break;
+    }
+
+    const name = match[1] as SUNPlaceholder;
+    url += rest.slice(0, match.index);
+    positions[name] = url.length;
+
+    if (name !== 'cmac') {
+      const value = values[name];
+      if (value === undefined) {
+        throw new Error(`No value for placeholder {${name}}`);
+      }
+      url += value;
+    }
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  const macOffset = positions.cmac;
+  if (macOffset === undefined) {
+    throw new Error('URL template must contain {cmac}');
+  }
+
+  const macInputOffset = positions[params.macInputFrom ?? 'cmac'];
+  if (macInputOffset === undefined || macInputOffset > macOffset) {
+    throw new Error('MAC input placeholder must appear before {cmac}');
+  }
+
+  const macInput = Buffer.from(url.substring(macInputOffset, macOffset), 'ascii');
+  const fullMAC = cryptoMode === 'lrp'
+    ? lrpCmac(sessionKey, 0, macInput)
+    : aesCmac(sessionKey, macInput, { returnAsBuffer: true }) as Buffer;
+  const cmac = truncateMAC(fullMAC).toString('hex').toUpperCase();
+
+  return url.slice(0, macOffset) + cmac + url.slice(macOffset);
+}
@@ -0,0 +1,473 @@
+import { SDMKeyProvider } from './keys';
+import {
+  CommMode,
+  EV2Session,
+  buildAuthenticateEV2First,
+  buildAuthenticateEV2FirstPart2,
+  buildSecureCommand,
+  completeAuthenticateEV2First,
+  jamCRC32,
+  verifySecureResponse,
+} from './ev2';
+
+/**
+ * NTAG424 태그 개인화 APDU 생성 (AES 모드, NXP AN12196)
+ * NDEF URL 템플릿 쓰기, SDM 파일 설정, 키 변경
+ * 카드 리더 스크립트는 provisionTag에 APDU 송수신 함수만 넘기면 됨
+ */
+
+// 네이티브 명령 코드
+const CMD_GET_CARD_UID = 0x51;
+const CMD_CHANGE_FILE_SETTINGS = 0x5f;
+const CMD_WRITE_DATA = 0x8d;
+const CMD_CHANGE_KEY = 0xc4;
+
+// NDEF 애플리케이션 / 파일
+const NDEF_APPLICATION_ID = Buffer.from('D2760000850101', 'hex');
+export const NDEF_FILE_NO = 0x02;
+const NDEF_FILE_SIZE = 256;
+
+// 접근 권한 값 (0x0-0x4: 키 번호)
+export const ACCESS_FREE = 0xe;
+export const ACCESS_DENIED = 0xf;
+
+// WriteData 한 번에 쓰는 최대 길이 (짧은 APDU)
+const WRITE_CHUNK_SIZE = 128;
+
+// URL 접두어 코드 (NFC Forum URI RTD)
+const URI_PREFIXES: Array<[string, number]> = [
+  ['https://www.', 0x02],
+  ['http://www.', 0x01],
+  ['https://', 0x04],
+  ['http://', 0x03],
+];
+
+/**
+ * URL 템플릿 자리표시자와 미러링 길이 (ASCII hex 문자 수)
+ */
+const PLACEHOLDER_LENGTHS = {
+  picc_data: 32,
+  uid: 14,
+  ctr: 6,
+  cmac: 16,
+} as const;
+
+export type URLPlaceholder = keyof typeof PLACEHOLDER_LENGTHS | 'enc';
+
+/**
+ * 파일 접근 권한 (각 값은 키 번호 0-4, ACCESS_FREE 또는 ACCESS_DENIED)
+ */
+export interface AccessRights {
+  read: number;
+  write: number;
+  readWrite: number;
+  change: number;
+}
+
+/**
+ * SDM 설정 (오프셋은 NDEF 파일 기준 바이트 위치)
+ */
+export interface SDMSettings {
+  uidMirror: boolean;
+  counterMirror: boolean;
+  metaReadKey: number;
+  fileReadKey: number;
+  counterRetrievalKey: number;
+  uidOffset?: number;
+  counterOffset?: number;
+  piccDataOffset?: number;
+  macInputOffset?: number;
+  macOffset?: number;
+  encOffset?: number;
+  encLength?: number;
+  counterLimit?: number;
+}
+
+export interface FileSettings {
+  commMode: CommMode;
+  accessRights: AccessRights;
+  sdm?: SDMSettings;
+}
+
+/**
+ * NDEF URL 템플릿 - 파일 내용과 미러링 위치
+ */
+export interface NDEFURLTemplate {
+  file: Buffer;
+  offsets: Partial<Record<URLPlaceholder, number>>;
+  encLength?: number;
+  macInputOffset?: number;
+}
+
+/**
+ * 개인화 시 변경할 키
+ * oldKey: 현재 키 (인증 키가 아닌 경우 필요, 생략 시 출하 시 기본값인 0 키)
+ */
+export interface KeyChange {
+  keyNo: number;
+  key: Buffer;
+  version: number;
+  oldKey?: Buffer;
+}
+
+/**
+ * 개인화 옵션
+ * - authKey: 현재 키 0 (출하 시 0 키)
+ * - url: 자리표시자가 포함된 URL 템플릿 (예: https://example.com/tap?picc_data={picc_data}&cmac={cmac})
+ * - macInputFrom: SDMMACInput 시작 위치 (생략 시 cmac 위치 = 빈 MAC 입력)
+ * - keyProvider: 검증 서버와 같은 키 제공자 (FileRead 키는 태그 UID로 다변화)
+ * - newMasterKey: 설정 시 마지막으로 키 0 변경
+ */
+export interface ProvisionOptions {
+  authKey: Buffer;
+  url: string;
+  macInputFrom?: URLPlaceholder;
+  encLength?: number;
+  keyProvider: SDMKeyProvider;
+  keyVersion?: number;
+  metaReadKeyNo?: number;
+  fileReadKeyNo?: number;
+  oldKeys?: Record<number, Buffer>;
+  newMasterKey?: Buffer;
+}
+
+/**
+ * 카드 리더로 APDU를 보내고 응답(SW 포함)을 받는 함수
+ */
+export type Transmit = (apdu: Buffer) => Promise<Buffer>;
+
+/**
+ * 3바이트 리틀 엔디언 값
+ */
+function uint24LE(value: number): Buffer {
+  if (value < 0 || value > 0xffffff) {
+    throw new Error(`Offset out of range: ${value}`);
+  }
+  const buffer = Buffer.alloc(3);
+  buffer.writeUIntLE(value, 0, 3);
+  return buffer;
+}
+
+/**
+ * 필수 오프셋 확인
+ */
+function requireOffset(value: number | undefined, name: string): Buffer {
+  if (value === undefined) {
+    throw new Error(`${name} is required for these SDM settings`);
+  }
+  return uint24LE(value);
+}
+
+/**
+ * ChangeFileSettings 데이터 인코딩
+ * FileOption || AccessRights || [SDMOptions || SDMAccessRights || 오프셋...]
+ */
+export function encodeFileSettings(settings: FileSettings): Buffer {
+  const commModeBits = { plain: 0x00, mac: 0x01, full: 0x03 }[settings.commMode];
+  const { read, write, readWrite, change } = settings.accessRights;
+  const parts: Buffer[] = [
+    Buffer.from([
+      (settings.sdm ? 0x40 : 0x00) | commModeBits,
+      (readWrite << 4) | change,
+      (read << 4) | write,
+    ]),
+  ];
+
+  const sdm = settings.sdm;
+  if (!sdm) {
+    return parts[0];
+  }
+
+  // SDMOptions: UID 미러링, 카운터 미러링, 카운터 제한, ENC 파일 데이터, ASCII 인코딩
+  const sdmOptions =
+    (sdm.uidMirror ? 0x80 : 0) |
+    (sdm.counterMirror ? 0x40 : 0) |
+    (sdm.counterLimit !== undefined ? 0x20 : 0) |
+    (sdm.encLength !== undefined ? 0x10 : 0) |
+    0x01;
+
+  parts.push(Buffer.from([
+    sdmOptions,
+    0xf0 | sdm.counterRetrievalKey,
+    (sdm.metaReadKey << 4) | sdm.fileReadKey,
+  ]));
+
+  if (sdm.metaReadKey === ACCESS_FREE) {
+    // 평문 미러링: UID / 카운터 위치를 각각 지정
+    if (sdm.uidMirror) {
+      parts.push(requireOffset(sdm.uidOffset, 'UIDOffset'));
+    }
+    if (sdm.counterMirror) {
+      parts.push(requireOffset(sdm.counterOffset, 'SDMReadCtrOffset'));
+    }
+  } else if (sdm.metaReadKey !== ACCESS_DENIED) {
+    parts.push(requireOffset(sdm.piccDataOffset, 'PICCDataOffset'));
+  }
+
+  if (sdm.fileReadKey !== ACCESS_DENIED) {
+    parts.push(requireOffset(sdm.macInputOffset, 'SDMMACInputOffset'));
+    if (sdm.encLength !== undefined) {
+      if (sdm.encLength === 0 || sdm.encLength % 32 !== 0) {
+        throw new Error('SDMENCLength must be a non-zero multiple of 32');
+      }
+      parts.push(requireOffset(sdm.encOffset, 'SDMENCOffset'), uint24LE(sdm.encLength));
+    }
+    parts.push(requireOffset(sdm.macOffset, 'SDMMACOffset'));
+  }
+
+  if (sdm.counterLimit !== undefined) {
+    parts.push(uint24LE(sdm.counterLimit));
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * URL 템플릿으로 NDEF 파일 내용 생성 (NLEN || URI 레코드)
+ * 자리표시자는 같은 길이의 '0'으로 채우고 파일 내 위치를 반환
+ * URI 레코드 헤더가 7바이트이므로 URL 본문은 파일 오프셋 7부터 시작 (NTAG424_URI_FILE_OFFSET)
+ */
+export function buildNDEFURLTemplate(
+  url: string,
+  options: { encLength?: number; macInputFrom?: URLPlaceholder } = {}
+): NDEFURLTemplate {
+  const [prefix, prefixCode] = URI_PREFIXES.find(([value]) => url.startsWith(value)) ?? ['', 0x00];
+  const headerLength = 7;
+
+  const offsets: Partial<Record<URLPlaceholder, number>> = {};
+  let body = '';
+  let rest = url.slice(prefix.length);
+
+  for (;;) {
+    const match = /\{(picc_data|uid|ctr|cmac|enc)\}/.exec(rest);
+    if (!match) {
+      body += rest;
+      break;
+    }
+
+    const name = match[1] as URLPlaceholder;
+    if (offsets[name] !== undefined) {
+      throw new Error(`Duplicate placeholder: {${name}}`);
+    }
+
+    body += rest.slice(0, match.index);
+    offsets[name] = headerLength + body.length;
+
+    const length = name === 'enc' ? options.encLength : PLACEHOLDER_LENGTHS[name];
+    if (!length) {
+      throw new Error('encLength is required for the {enc} placeholder');
+    }
+    body += '0'.repeat(length);
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  const payload = Buffer.concat([Buffer.from([prefixCode]), Buffer.from(body, 'ascii')]);
+  if (payload.length > 255) {
+    throw new Error('URL template is too long for a short NDEF record');
+  }
+
+  const record = Buffer.concat([Buffer.from([0xd1, 0x01, payload.length, 0x55]), payload]);
+  const nlen = Buffer.alloc(2);
+  nlen.writeUInt16BE(record.length);
+  const file = Buffer.concat([nlen, record]);
+
+  if (file.length > NDEF_FILE_SIZE) {
+    throw new Error('URL template does not fit in the NDEF file');
+  }
+
+  const macInputFrom = options.macInputFrom ?? 'cmac';
+  return {
+    file,
+    offsets,
+    encLength: offsets.enc !== undefined ? options.encLength : undefined,
+    macInputOffset: offsets.cmac !== undefined ? offsets[macInputFrom] : undefined,
+  };
+}
+
+/**
+ * URL 템플릿에 맞는 NDEF 파일 설정 (읽기 자유, 쓰기 / 설정 변경은 키 0)
+ * {picc_data}가 있으면 암호화 미러링, {uid} / {ctr}이면 평문 미러링
+ */
+export function buildSDMFileSettings(
+  template: NDEFURLTemplate,
+  keys: { metaReadKeyNo: number; fileReadKeyNo: number; counterRetrievalKeyNo?: number }
+): FileSettings {
+  const { offsets } = template;
+  const encrypted = offsets.picc_data !== undefined;
+
+  if (encrypted && (offsets.uid !== undefined || offsets.ctr !== undefined)) {
+    throw new Error('Use either {picc_data} or {uid} / {ctr}, not both');
+  }
+  if (offsets.cmac === undefined && offsets.enc !== undefined) {
+    throw new Error('{enc} requires a {cmac} placeholder');
+  }
+  if (template.macInputOffset === undefined && offsets.cmac !== undefined) {
+    throw new Error('MAC input placeholder not found in the URL template');
+  }
+
+  return {
+    commMode: 'plain',
+    accessRights: { read: ACCESS_FREE, write: 0, readWrite: 0, change: 0 },
+    sdm: {
+      uidMirror: encrypted || offsets.uid !== undefined,
+      counterMirror: encrypted || offsets.ctr !== undefined,
+      metaReadKey: encrypted ? keys.metaReadKeyNo : ACCESS_FREE,
+      fileReadKey: offsets.cmac !== undefined ? keys.fileReadKeyNo : ACCESS_DENIED,
+      counterRetrievalKey: keys.counterRetrievalKeyNo ?? keys.fileReadKeyNo,
+      uidOffset: offsets.uid,
+      counterOffset: offsets.ctr,
+      piccDataOffset: offsets.picc_data,
+      macInputOffset: template.macInputOffset,
+      macOffset: offsets.cmac,
+      encOffset: offsets.enc,
+      encLength: template.encLength,
+    },
+  };
+}
+
+/**
+ * ISOSelectFile - NDEF 애플리케이션 선택
+ */
+export function buildSelectNDEFApplication(): Buffer {
+  return Buffer.concat([
+    Buffer.from([0x00, 0xa4, 0x04, 0x0c, NDEF_APPLICATION_ID.length]),
+    NDEF_APPLICATION_ID,
+    Buffer.from([0x00]),
+  ]);
+}
+
+/**
+ * GetCardUID (CommMode.Full 응답 - verifySecureResponse(..., 'full')로 UID 7바이트 획득)
+ */
+export function buildGetCardUID(session: EV2Session): Buffer {
+  return buildSecureCommand(session, CMD_GET_CARD_UID, Buffer.alloc(0), Buffer.alloc(0), 'mac');
+}
+
+/**
+ * WriteData (파일 통신 모드에 맞춰 전송, 출하 시 NDEF 파일은 plain)
+ */
+export function buildWriteData(
+  session: EV2Session,
+  fileNo: number,
+  offset: number,
+  data: Buffer,
+  mode: CommMode = 'plain'
+): Buffer {
+  const header = Buffer.concat([Buffer.from([fileNo]), uint24LE(offset), uint24LE(data.length)]);
+  return buildSecureCommand(session, CMD_WRITE_DATA, header, data, mode);
+}
+
+/**
+ * ChangeFileSettings (CommMode.Full)
+ */
+export function buildChangeFileSettings(session: EV2Session, fileNo: number, settings: FileSettings): Buffer {
+  return buildSecureCommand(session, CMD_CHANGE_FILE_SETTINGS, Buffer.from([fileNo]), encodeFileSettings(settings), 'full');
+}
+
+/**
+ * ChangeKey (CommMode.Full)
+ * - 인증에 사용한 키: NewKey || KeyVer (성공 시 세션 종료, 응답에 MAC 없음)
+ * - 다른 키: (NewKey XOR OldKey) || KeyVer || CRC32NK
+ */
+export function buildChangeKey(session: EV2Session, change: KeyChange): Buffer {
+  const { keyNo, key, version } = change;
+  if (key.length !== 16) {
+    throw new Error('New key must be 16 bytes');
+  }
+
+  let data: Buffer;
+  if (keyNo === session.keyNo) {
+    data = Buffer.concat([key, Buffer.from([version])]);
+  } else {
+    const oldKey = change.oldKey ?? Buffer.alloc(16, 0);
+    const xored = Buffer.alloc(16);
+    for (let i = 0; i < 16; i++) {
+      xored[i] = key[i] ^ oldKey[i];
+    }
+    data = Buffer.concat([xored, Buffer.from([version]), jamCRC32(key)]);
+  }
+
+  return buildSecureCommand(session, CMD_CHANGE_KEY, Buffer.from([keyNo]), data, 'full');
+}
+
+/**
+ * ChangeKey 응답 검증 (인증 키 변경 시 MAC 없음)
+ */
+export function verifyChangeKeyResponse(session: EV2Session, keyNo: number, response: Buffer): void {
+  verifySecureResponse(session, response, keyNo === session.keyNo ? 'plain' : 'mac');
+}
+
+/**
+ * ISO 응답 상태 확인 (90 00)
+ */
+function expectISOSuccess(response: Buffer, step: string): void {
+  const sw = response.subarray(response.length - 2).toString('hex').toUpperCase();
+  if (sw !== '9000') {
+    throw new Error(`${step} failed with status ${sw}`);
+  }
+}
+
+/**
+ * 태그 개인화 전체 순서 실행
+ * 1. NDEF 애플리케이션 선택, 키 0으로 AuthenticateEV2First
+ * 2. GetCardUID로 UID 확인 (FileRead 키 다변화에 사용)
+ * 3. NDEF URL 템플릿 쓰기, SDM 파일 설정
+ * 4. MetaRead / FileRead 키 변경, 마지막으로 키 0 변경 (선택)
+ */
+export async function provisionTag(
+  transmit: Transmit,
+  options: ProvisionOptions
+): Promise<{ uid: string; template: NDEFURLTemplate; settings: FileSettings }> {
+  const metaReadKeyNo = options.metaReadKeyNo ?? 1;
+  const fileReadKeyNo = options.fileReadKeyNo ?? 2;
+  const keyVersion = options.keyVersion ?? 1;
+
+  if (metaReadKeyNo === 0 || fileReadKeyNo === 0 || metaReadKeyNo === fileReadKeyNo) {
+    throw new Error('MetaRead and FileRead keys must use distinct key numbers other than 0');
+  }
+
+  const template = buildNDEFURLTemplate(options.url, {
+    encLength: options.encLength,
+    macInputFrom: options.macInputFrom,
+  });
+  const settings = buildSDMFileSettings(template, { metaReadKeyNo, fileReadKeyNo });
+
+  expectISOSuccess(await transmit(buildSelectNDEFApplication()), 'Select NDEF application');
+
+  const part1 = await transmit(buildAuthenticateEV2First(0));
+  const challenge = buildAuthenticateEV2FirstPart2(0, options.authKey, part1);
+  const session = completeAuthenticateEV2First(challenge, await transmit(challenge.apdu));
+  console.log('[PERSONALIZE] Authenticated, TI:', session.ti.toString('hex').toUpperCase());
+
+  const uid = verifySecureResponse(session, await transmit(buildGetCardUID(session)), 'full')
+    .subarray(0, 7)
+    .toString('hex')
+    .toUpperCase();
+  console.log('[PERSONALIZE] Card UID:', uid);
+
+  // 인증 상태에서는 plain 명령도 CmdCtr를 증가시키므로 응답마다 세션 갱신
+  for (let offset = 0; offset < template.file.length; offset += WRITE_CHUNK_SIZE) {
+    const chunk = template.file.subarray(offset, offset + WRITE_CHUNK_SIZE);
+    verifySecureResponse(session, await transmit(buildWriteData(session, NDEF_FILE_NO, offset, chunk)), 'plain');
+  }
+  console.log('[PERSONALIZE] NDEF template written:', template.file.length, 'bytes');
+
+  verifySecureResponse(session, await transmit(buildChangeFileSettings(session, NDEF_FILE_NO, settings)), 'mac');
+  console.log('[PERSONALIZE] SDM file settings applied');
+
+  const changes: KeyChange[] = [
+    { keyNo: metaReadKeyNo, key: await options.keyProvider.getMetaReadKey(), version: keyVersion },
+    { keyNo: fileReadKeyNo, key: await options.keyProvider.getFileReadKey(uid), version: keyVersion },
+  ];
+  if (options.newMasterKey) {
+    changes.push({ keyNo: 0, key: options.newMasterKey, version: keyVersion });
+  }
+
+  for (const change of changes) {
+    const oldKey = options.oldKeys?.[change.keyNo];
+    verifyChangeKeyResponse(session, change.keyNo, await transmit(buildChangeKey(session, { ...change, oldKey })));
+    console.log('[PERSONALIZE] Key', change.keyNo, 'changed');
+  }
+
+  return { uid, template, settings };
+}
@@ -0,0 +1,96 @@
+import type { VerificationErrorCode } from './errors';
+import type { ProductInfo } from './store/types';
+
+/**
+ * 공개 정품 확인 (로그인 없이 태그 스캔 결과만 표시)
+ * - genuine: 정품, 처음 사용된 URL
+ * - already-scanned: 정품이지만 이미 사용된 URL (복사된 링크일 수 있음)
+ * - not-genuine: 서명 불일치 / 복호화 실패 / 잘못된 형식
+ * - revoked: 사용 중지된 태그
+ * - suspicious: 정품 태그지만 봉인 / 이상 탐지 정책으로 거부된 스캔
+ */
+export type PublicVerificationStatus = 'genuine' | 'already-scanned' | 'not-genuine' | 'revoked' | 'suspicious';
+
+/**
+ * 검증 실패 코드를 공개 검증 결과로 변환
+ */
+export function toPublicStatus(code: VerificationErrorCode): PublicVerificationStatus {
+  switch (code) {
+    case 'REPLAY':
+    case 'COUNTER_REGRESSION':
+      return 'already-scanned';
+    case 'REVOKED':
+      return 'revoked';
+    case 'TAMPERED':
+    case 'REAUTH_REQUIRED':
+      return 'suspicious';
+    default:
+      return 'not-genuine';
+  }
+}
+
+/**
+ * 공개 검증 응답 (민감하지 않은 값만 포함 - 소유자, UID, 파일 데이터 제외)
+ */
+export interface PublicVerificationResult {
+  status: PublicVerificationStatus;
+  // 정품 확인이 된 경우만 (not-genuine이면 UID를 신뢰할 수 없으므로 생략)
+  product?: ProductInfo;
+  scanCount?: number;
+  sealOpened?: boolean;
+  checkedAt: string;
+}
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_ATTRIBUTES = 20;
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 제품 정보 요청 본문 검증 (문제가 있으면 오류 설명 반환)
+ */
+export function parseProductInfo(body: unknown): { product: ProductInfo } | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const { name, description, imageUrl, url, attributes } = body as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_TEXT_LENGTH) {
+    return { error: `name is required (at most ${MAX_TEXT_LENGTH} characters)` };
+  }
+  if (description !== undefined && (typeof description !== 'string' || description.length > MAX_TEXT_LENGTH)) {
+    return { error: `description must be a string of at most ${MAX_TEXT_LENGTH} characters` };
+  }
+  for (const [field, value] of [['imageUrl', imageUrl], ['url', url]] as const) {
+    if (value !== undefined && (typeof value !== 'string' || !isHttpUrl(value))) {
+      return { error: `${field} must be an http(s) URL` };
+    }
+  }
+  if (attributes !== undefined) {
+    if (typeof attributes !== 'object' || attributes === null || Array.isArray(attributes)) {
+      return { error: 'attributes must be an object' };
+    }
+    const entries = Object.entries(attributes);
+    if (entries.length > MAX_ATTRIBUTES || entries.some(([, value]) => typeof value !== 'string' || value.length > MAX_TEXT_LENGTH)) {
+      return { error: `attributes must have at most ${MAX_ATTRIBUTES} string values` };
+    }
+  }
+
+  return {
+    product: {
+      name: name.trim(),
+      description: description as string | undefined,
+      imageUrl: imageUrl as string | undefined,
+      url: url as string | undefined,
+      attributes: attributes as Record<string, string> | undefined,
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { hitRateLimit } from './kv';
+import { errorResponse } from './errors';
+
+/**
+ * 라우트별 슬라이딩 윈도 요청 제한 (사용자 / 클라이언트 IP / 태그 UID 기준)
+ * introspect의 user는 인증된 introspection client_id
+ * 기록은 lib/kv를 통해 태그 정보와 같은 저장소에 저장
+ */
+
+export type RateLimitScope = 'user' | 'ip' | 'uid';
+export type RateLimitRoute = 'verify' | 'register' | 'public' | 'introspect';
+
+export interface RateLimitRule {
+  scope: RateLimitScope;
+  limit: number;
+  windowSeconds: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; limit: number; retryAfterSeconds: number };
+
+// 기본 제한 (UID 제한은 CMAC 대입 공격 방지)
+const DEFAULT_RULES: Record<RateLimitRoute, string> = {
+  verify: 'user:30/60,ip:60/60,uid:20/60',
+  register: 'user:10/3600,ip:20/3600,uid:5/3600',
+  public: 'ip:30/60,uid:20/60',
+  introspect: 'ip:60/60,user:600/60',
+};
+
+/**
+ * 'scope:limit/windowSeconds' 목록 파싱 (쉼표 구분, 예: user:30/60,ip:60/60)
+ */
+export function parseRateLimitRules(value: string): RateLimitRule[] {
+  return value
+    .split(',')
+    .map((rule) => rule.trim())
+    .filter(Boolean)
+    .map((rule) => {
+      const match = rule.match(/^(user|ip|uid):(\d+)\/(\d+)$/);
+      if (!match || parseInt(match[2], 10) < 1 || parseInt(match[3], 10) < 1) {
+        throw new Error(`Invalid rate limit rule: ${rule}`);
+      }
+      return { scope: match[1] as RateLimitScope, limit: parseInt(match[2], 10), windowSeconds: parseInt(match[3], 10) };
+    });
+}
+
+/**
+ * 환경 변수로부터 라우트별 제한 규칙 생성
+ * - NTAG424_RATE_LIMIT_VERIFY / _REGISTER / _PUBLIC / _INTROSPECT: 규칙 목록 (off면 제한 없음)
+ */
+export function getRateLimitRulesFromEnv(route: RateLimitRoute): RateLimitRule[] {
+  const value = process.env[`NTAG424_RATE_LIMIT_${route.toUpperCase()}`] ?? DEFAULT_RULES[route];
+  return value === 'off' ? [] : parseRateLimitRules(value);
+}
+
+/**
+ * 요청 제한 확인 (값이 없는 기준은 건너뜀)
+ * 모든 기준을 확인하며, 하나라도 초과하면 재시도까지 가장 오래 기다려야 하는 기준을 반환
+ */
+export async function checkRateLimit(
+  route: RateLimitRoute,
+  identities: Partial<Record<RateLimitScope, string>>
+): Promise<RateLimitResult> {
+  let denied: RateLimitResult = { allowed: true };
+
+  for (const rule of getRateLimitRulesFromEnv(route)) {
+    const identity = identities[rule.scope];
+    if (!identity) {
+      continue;
+    }
+
+    const key = `${route}:${rule.scope}:${identity}:${rule.windowSeconds}`;
+    const hit = await hitRateLimit(key, rule.limit, rule.windowSeconds * 1000);
+    if (!hit.allowed) {
+      const retryAfterSeconds = Math.max(1, Math.ceil(hit.retryAfterMs / 1000));
+      console.log('[RATE_LIMIT] Limited:', { route, scope: rule.scope, identity, count: hit.count, retryAfterSeconds });
+      if (denied.allowed || retryAfterSeconds > denied.retryAfterSeconds) {
+        denied = { allowed: false, scope: rule.scope, limit: rule.limit, retryAfterSeconds };
+      }
+    }
+  }
+
+  return denied;
+}
+
+/**
+ * 429 응답 (Retry-After 헤더 포함)
+ */
+export function rateLimitResponse(result: Extract<RateLimitResult, { allowed: false }>): NextResponse {
+  const response = errorResponse('RATE_LIMITED', 'Too many requests', `Rate limit exceeded for ${result.scope}`, {
+    scope: result.scope,
+    limit: result.limit,
+    retryAfter: result.retryAfterSeconds,
+  });
+  response.headers.set('Retry-After', result.retryAfterSeconds.toString());
+  return response;
+}
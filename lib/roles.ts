@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
+import { getUserRole } from './kv';
+import { errorResponse } from './errors';
+
+/**
+ * 관리자 이메일 목록 (NTAG424_ADMIN_EMAILS, 쉼표로 구분)
+ * 저장소에 admin 역할이 저장된 사용자도 관리자로 취급
+ */
+export function getAdminEmailsFromEnv(): string[] {
+  return (process.env.NTAG424_ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// 관리자 여부 (환경 변수 목록 또는 저장된 역할)
+export async function isAdmin(email: string): Promise<boolean> {
+  if (getAdminEmailsFromEnv().includes(email.toLowerCase())) {
+    return true;
+  }
+  return (await getUserRole(email)) === 'admin';
+}
+
+/**
+ * 관리자 API 접근 확인
+ * 관리자면 이메일, 아니면 401 / 403 응답 반환
+ */
+export async function requireAdmin(session: Session | null): Promise<{ email: string } | { response: NextResponse }> {
+  if (!session?.user?.email) {
+    return { response: errorResponse('UNAUTHENTICATED', 'Unauthorized', 'Please login first') };
+  }
+  if (!(await isAdmin(session.user.email))) {
+    console.log('[ADMIN] Access denied:', session.user.email);
+    return { response: errorResponse('FORBIDDEN', 'Access denied', 'Administrator role required') };
+  }
+  return { email: session.user.email };
+}
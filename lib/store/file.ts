@@ -0,0 +1,123 @@
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { TagStore } from './types';
+import { MemoryStoreState, createEmptyState, createMemoryStore, indexUserTags } from './memory';
+
+/**
+ * JSON 파일 저장소 (자체 호스팅용, 같은 파일을 여러 서버 프로세스가 함께 사용 가능)
+ * - 모든 작업은 잠금 파일(<파일>.lock)을 잡은 상태에서 파일을 다시 읽고 수행
+ *   → 카운터 사용(리플레이 검사)이 프로세스 사이에서도 원자적
+ * - 변경된 상태는 임시 파일에 쓴 뒤 rename으로 교체 (중간에 중단되어도 이전 파일 유지)
+ * - 잠금은 O_EXCL 파일 생성에 의존하므로 같은 로컬 파일 시스템 전제 (NFS 등은 보장 안 함)
+ * - 요청 제한 기록은 상태에 저장하지 않으므로 프로세스별로 계산
+ */
+
+// 잡은 채로 비정상 종료된 잠금으로 보는 시간 (작업 하나는 이보다 훨씬 짧음)
+const LOCK_STALE_MS = 10_000;
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_RETRY_MS = 5;
+
+async function loadState(filePath: string): Promise<MemoryStoreState> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createEmptyState();
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(content) as Partial<MemoryStoreState>;
+  const state = { ...createEmptyState(), ...parsed };
+
+  // 인덱스가 없던 이전 형식의 파일은 태그 목록으로부터 인덱스 생성
+  if (!parsed.userTags) {
+    state.userTags = indexUserTags(state.tags);
+  }
+
+  return state;
+}
+
+async function saveState(filePath: string, state: MemoryStoreState): Promise<void> {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(state, null, 2));
+  await rename(tmpPath, filePath);
+}
+
+/**
+ * 프로세스 간 잠금 (잠금 파일을 배타적으로 생성), 반환된 함수로 해제
+ */
+async function acquireLock(lockPath: string): Promise<() => Promise<void>> {
+  const start = Date.now();
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      return () => unlink(lockPath).catch(() => {});
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    // 비정상 종료한 프로세스가 남긴 잠금 제거
+    const info = await stat(lockPath).catch(() => null);
+    if (info && Date.now() - info.mtimeMs > LOCK_STALE_MS) {
+      console.log('[STORE] Removing stale lock:', lockPath);
+      await unlink(lockPath).catch(() => {});
+      continue;
+    }
+    if (Date.now() - start > LOCK_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for store lock: ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+export function createFileStore(filePath: string): TagStore {
+  const lockPath = `${filePath}.lock`;
+  // 요청 제한 기록 (프로세스별, 파일에 저장하지 않음)
+  const rateLimitStore = createMemoryStore();
+  // 같은 프로세스의 작업은 큐로 순서대로 처리 (잠금 파일 재시도 대기 방지)
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * 잠금을 잡고 최신 파일 상태로 작업 수행, 상태가 바뀌었으면 저장한 뒤 잠금 해제
+   */
+  function run<T>(operation: (store: TagStore) => Promise<T>): Promise<T> {
+    const result = queue.then(async () => {
+      await mkdir(dirname(filePath), { recursive: true });
+      const release = await acquireLock(lockPath);
+      try {
+        const state = await loadState(filePath);
+        let changed = false;
+        const value = await operation(createMemoryStore(state, () => {
+          changed = true;
+        }));
+        if (changed) {
+          await saveState(filePath, state);
+        }
+        return value;
+      } finally {
+        await release();
+      }
+    });
+    queue = result.catch(() => {});
+    return result;
+  }
+
+  const methods = createMemoryStore();
+  const store = {} as Record<string, unknown>;
+  for (const name of Object.keys(methods) as Array<keyof TagStore>) {
+    store[name] =
+      name === 'hitRateLimit'
+        ? rateLimitStore.hitRateLimit
+        : (...args: unknown[]) => run((current) => (current[name] as (...args: unknown[]) => Promise<unknown>)(...args));
+  }
+
+  console.log('[STORE] Using file store:', filePath);
+  return store as unknown as TagStore;
+}
@@ -0,0 +1,46 @@
+import { TagStore } from './types';
+import { createVercelKVStore } from './vercel-kv';
+import { createMemoryStore } from './memory';
+import { createFileStore } from './file';
+
+export type { TagStore } from './types';
+export { createVercelKVStore } from './vercel-kv';
+export { createMemoryStore } from './memory';
+export { createFileStore } from './file';
+
+/**
+ * 저장소 선택 (NTAG424_STORE)
+ * - vercel-kv (기본값): Vercel KV
+ * - memory: 프로세스 메모리 (재시작 시 초기화)
+ * - file: JSON 파일 (자체 호스팅용, 여러 프로세스가 잠금 파일로 공유, NTAG424_STORE_FILE, 기본 .data/ntag424-store.json)
+ */
+
+let store: TagStore | null = null;
+
+function createStoreFromEnv(): TagStore {
+  const type = process.env.NTAG424_STORE || 'vercel-kv';
+
+  switch (type) {
+    case 'memory':
+      return createMemoryStore();
+    case 'file':
+      return createFileStore(process.env.NTAG424_STORE_FILE || '.data/ntag424-store.json');
+    case 'vercel-kv':
+      return createVercelKVStore();
+    default:
+      throw new Error(`Unknown NTAG424_STORE: ${type}`);
+  }
+}
+
+export function getStore(): TagStore {
+  if (!store) {
+    store = createStoreFromEnv();
+    console.log('[STORE] Using store:', process.env.NTAG424_STORE || 'vercel-kv');
+  }
+  return store;
+}
+
+// 테스트 등에서 저장소 교체
+export function setStore(next: TagStore | null): void {
+  store = next;
+}
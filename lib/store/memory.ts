@@ -0,0 +1,315 @@
+import {
+  ANOMALY_LOG_LIMIT,
+  AnomalyEvent,
+  ProductInfo,
+  SCAN_HISTORY_LIMIT,
+  ScanEvent,
+  TagDetails,
+  TagRevocation,
+  TagStore,
+  TagTransfer,
+  UserRole,
+  WEBHOOK_DELIVERY_LOG_LIMIT,
+  WebhookDelivery,
+  WebhookSubscription,
+} from './types';
+
+/**
+ * 인메모리 저장소 (테스트 / 로컬 개발용)
+ * 파일 저장소도 같은 상태 구조를 사용
+ */
+
+export interface MemoryStoreState {
+  tags: Record<string, string>;
+  details: Record<string, TagDetails>;
+  transfers: Record<string, TagTransfer>;
+  revocations: Record<string, TagRevocation>;
+  products: Record<string, ProductInfo>;
+  userTags: Record<string, string[]>;
+  counters: Record<string, number>;
+  keyVersions: Record<string, number>;
+  roles: Record<string, UserRole>;
+  // UID별 스캔 기록 (오래된 순)
+  scans: Record<string, ScanEvent[]>;
+  // 이상 탐지 기록 (오래된 순)
+  anomalies: AnomalyEvent[];
+  webhooks: Record<string, WebhookSubscription>;
+  // 웹훅 전송 기록 (오래된 순)
+  webhookDeliveries: WebhookDelivery[];
+}
+
+export function createEmptyState(): MemoryStoreState {
+  return { tags: {}, details: {}, transfers: {}, revocations: {}, products: {}, userTags: {}, counters: {}, keyVersions: {}, roles: {}, scans: {}, anomalies: [], webhooks: {}, webhookDeliveries: [] };
+}
+
+function addUserTag(state: MemoryStoreState, userEmail: string, uid: string): void {
+  const tags = state.userTags[userEmail] ?? [];
+  if (!tags.includes(uid)) {
+    state.userTags[userEmail] = [...tags, uid];
+  }
+}
+
+/**
+ * 태그 소유자 목록으로 사용자 -> 태그 인덱스 생성
+ */
+export function indexUserTags(tags: Record<string, string>): Record<string, string[]> {
+  const userTags: Record<string, string[]> = {};
+  for (const [uid, owner] of Object.entries(tags)) {
+    userTags[owner] = [...(userTags[owner] ?? []), uid];
+  }
+  return userTags;
+}
+
+function removeUserTag(state: MemoryStoreState, userEmail: string, uid: string): void {
+  const tags = (state.userTags[userEmail] ?? []).filter((tag) => tag !== uid);
+  if (tags.length > 0) {
+    state.userTags[userEmail] = tags;
+  } else {
+    delete state.userTags[userEmail];
+  }
+}
+
+/**
+ * state: 초기 상태 (생략 시 빈 상태)
+ * onChange: 상태가 변경될 때마다 호출 (파일 저장소의 영속화에 사용, 저장이 끝날 때까지 기다림)
+ */
+export function createMemoryStore(
+  state: MemoryStoreState = createEmptyState(),
+  onChange: (state: MemoryStoreState) => void | Promise<void> = () => {}
+): TagStore {
+  // 요청 제한 기록은 짧게 유지되는 값이므로 상태(파일 저장 대상)에 넣지 않음
+  const rateLimits = new Map<string, number[]>();
+
+  return {
+    async getTagOwner(uid) {
+      return state.tags[uid] ?? null;
+    },
+
+    async setTagOwner(uid, userEmail) {
+      const previousOwner = state.tags[uid];
+      if (previousOwner && previousOwner !== userEmail) {
+        removeUserTag(state, previousOwner, uid);
+      }
+      state.tags[uid] = userEmail;
+      addUserTag(state, userEmail, uid);
+      await onChange(state);
+    },
+
+    async deleteTag(uid) {
+      const owner = state.tags[uid];
+      if (owner) {
+        removeUserTag(state, owner, uid);
+      }
+      delete state.tags[uid];
+      delete state.details[uid];
+      delete state.transfers[uid];
+      await onChange(state);
+    },
+
+    async listTags() {
+      return Object.entries(state.tags).map(([uid, owner]) => ({ uid, owner }));
+    },
+
+    async getTagDetails(uid) {
+      return state.details[uid] ?? null;
+    },
+
+    async setTagDetails(uid, details) {
+      state.details[uid] = details;
+      await onChange(state);
+    },
+
+    async getTagTransfer(uid) {
+      const transfer = state.transfers[uid];
+      if (!transfer || Date.parse(transfer.expiresAt) <= Date.now()) {
+        return null;
+      }
+      return transfer;
+    },
+
+    async setTagTransfer(transfer) {
+      state.transfers[transfer.uid] = transfer;
+      await onChange(state);
+    },
+
+    async deleteTagTransfer(uid) {
+      delete state.transfers[uid];
+      await onChange(state);
+    },
+
+    async getTagRevocation(uid) {
+      return state.revocations[uid] ?? null;
+    },
+
+    async setTagRevocation(revocation) {
+      state.revocations[revocation.uid] = revocation;
+      await onChange(state);
+    },
+
+    async deleteTagRevocation(uid) {
+      delete state.revocations[uid];
+      await onChange(state);
+    },
+
+    async listTagRevocations() {
+      return Object.values(state.revocations);
+    },
+
+    async getProductInfo(uid) {
+      return state.products[uid] ?? null;
+    },
+
+    async setProductInfo(uid, product) {
+      state.products[uid] = product;
+      await onChange(state);
+    },
+
+    async deleteProductInfo(uid) {
+      delete state.products[uid];
+      await onChange(state);
+    },
+
+    async listUserTags(userEmail) {
+      return [...(state.userTags[userEmail] ?? [])];
+    },
+
+    async rebuildUserTagIndex() {
+      state.userTags = indexUserTags(state.tags);
+      await onChange(state);
+      return Object.keys(state.tags).length;
+    },
+
+    // 비교와 갱신 사이에 await가 없으므로 단일 프로세스 안에서 원자적
+    async consumeCounter(uid, counter) {
+      // 처음 보는 UID는 어떤 카운터든 허용 (0 포함, vercel-kv와 같은 규칙)
+      const max = state.counters[uid];
+      if (max !== undefined && counter <= max) {
+        return false;
+      }
+      state.counters[uid] = counter;
+      await onChange(state);
+      return true;
+    },
+
+    async getMaxCounter(uid) {
+      return state.counters[uid] ?? 0;
+    },
+
+    async resetCounter(uid) {
+      delete state.counters[uid];
+      await onChange(state);
+    },
+
+    async getTagKeyVersion(uid) {
+      return state.keyVersions[uid] ?? null;
+    },
+
+    async setTagKeyVersion(uid, version) {
+      state.keyVersions[uid] = version;
+      await onChange(state);
+    },
+
+    async listTagKeyVersions() {
+      return Object.entries(state.keyVersions).map(([uid, version]) => ({ uid, version }));
+    },
+
+    async getUserRole(email) {
+      return state.roles[email] ?? null;
+    },
+
+    async setUserRole(email, role) {
+      if (role) {
+        state.roles[email] = role;
+      } else {
+        delete state.roles[email];
+      }
+      await onChange(state);
+    },
+
+    async listUserRoles() {
+      return Object.entries(state.roles).map(([email, role]) => ({ email, role }));
+    },
+
+    async hitRateLimit(key, limit, windowMs) {
+      const now = Date.now();
+      const hits = (rateLimits.get(key) ?? []).filter((time) => time > now - windowMs);
+      if (hits.length >= limit) {
+        rateLimits.set(key, hits);
+        return { allowed: false, count: hits.length, retryAfterMs: hits[0] + windowMs - now };
+      }
+      hits.push(now);
+      rateLimits.set(key, hits);
+      return { allowed: true, count: hits.length, retryAfterMs: 0 };
+    },
+
+    async appendAnomalyEvent(event) {
+      state.anomalies = [...state.anomalies, event].slice(-ANOMALY_LOG_LIMIT);
+      await onChange(state);
+    },
+
+    async listAnomalyEvents(limit) {
+      return state.anomalies.slice(-limit).reverse();
+    },
+
+    async listWebhooks() {
+      return Object.values(state.webhooks);
+    },
+
+    async getWebhook(id) {
+      return state.webhooks[id] ?? null;
+    },
+
+    async setWebhook(webhook) {
+      state.webhooks[webhook.id] = webhook;
+      await onChange(state);
+    },
+
+    async deleteWebhook(id) {
+      delete state.webhooks[id];
+      await onChange(state);
+    },
+
+    async appendWebhookDelivery(delivery) {
+      state.webhookDeliveries = [...state.webhookDeliveries, delivery].slice(-WEBHOOK_DELIVERY_LOG_LIMIT);
+      await onChange(state);
+    },
+
+    async updateWebhookDelivery(delivery) {
+      state.webhookDeliveries = state.webhookDeliveries.map((saved) => (saved.id === delivery.id ? delivery : saved));
+      await onChange(state);
+    },
+
+    async listWebhookDeliveries(limit, webhookId) {
+      return state.webhookDeliveries
+        .filter((delivery) => webhookId === undefined || delivery.webhookId === webhookId)
+        .slice(-limit)
+        .reverse();
+    },
+
+    async listDueWebhookDeliveries(now, limit) {
+      return state.webhookDeliveries
+        .filter((delivery) => delivery.status === 'pending' && Date.parse(delivery.nextAttemptAt!) <= now)
+        .slice(0, limit);
+    },
+
+    async appendScanEvent(event) {
+      const events = state.scans[event.uid] ?? [];
+      const id = events.length > 0 ? events[events.length - 1].id + 1 : 1;
+      const saved = { ...event, id };
+      state.scans[event.uid] = [...events, saved].slice(-SCAN_HISTORY_LIMIT);
+      await onChange(state);
+      return saved;
+    },
+
+    async listScanEvents(uid, { before, limit }) {
+      const events = (state.scans[uid] ?? [])
+        .filter((event) => before === undefined || event.id < before)
+        .reverse();
+      const page = events.slice(0, limit);
+      return {
+        events: page,
+        nextCursor: events.length > limit ? page[page.length - 1].id : null,
+      };
+    },
+  };
+}
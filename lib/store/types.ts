@@ -0,0 +1,258 @@
+import type { VerificationErrorCode } from '../errors';
+import type { Anomaly, AnomalyAction } from '../anomaly';
+
+// 태그별로 보관하는 최근 스캔 기록 수
+export const SCAN_HISTORY_LIMIT = 1000;
+
+// 전체 태그 대상으로 보관하는 최근 이상 탐지 기록 수
+export const ANOMALY_LOG_LIMIT = 1000;
+
+// 전체 웹훅 대상으로 보관하는 최근 전송 기록 수
+export const WEBHOOK_DELIVERY_LOG_LIMIT = 1000;
+
+// 검증 외에 스캔 기록에 함께 남기는 태그 관리 작업
+export type TagAuditAction =
+  | 'registered'
+  | 'unregistered'
+  | 'transfer-started'
+  | 'transfer-cancelled'
+  | 'transfer-completed'
+  // 관리자 작업
+  | 'admin-unregistered'
+  | 'admin-reassigned'
+  | 'counter-reset'
+  // 사용 중지 / 재개 (소유자 또는 관리자)
+  | 'revoked'
+  | 'reinstated';
+
+/**
+ * 태그 검증 시도 기록 (성공 / 실패 모두)
+ * id는 태그별로 증가하는 순번 (페이지 커서로 사용)
+ * action이 있으면 검증이 아닌 관리 작업 기록 (user: 작업한 사용자, target: 대상 사용자)
+ */
+export interface ScanEvent {
+  id: number;
+  uid: string;
+  timestamp: string;
+  success: boolean;
+  action?: TagAuditAction;
+  code?: VerificationErrorCode;
+  reason?: string;
+  user?: string;
+  target?: string;
+  counter?: number;
+  ip?: string;
+  userAgent?: string;
+  anomalies?: Anomaly[];
+}
+
+/**
+ * 이상 탐지 기록 (관리자 검토용, action: 적용된 가장 강한 조치, user: 공개 검증이면 없음)
+ */
+export interface AnomalyEvent {
+  uid: string;
+  timestamp: string;
+  user?: string;
+  counter: number;
+  ip?: string;
+  action: AnomalyAction;
+  anomalies: Anomaly[];
+}
+
+/**
+ * 스캔 기록 페이지 (최신순, nextCursor가 null이면 마지막 페이지)
+ */
+export interface ScanEventPage {
+  events: ScanEvent[];
+  nextCursor: number | null;
+}
+
+// 저장된 사용자 역할 (역할이 없으면 일반 사용자)
+export type UserRole = 'admin';
+
+// 태그 메타데이터 값 (JSON 원시값만 허용)
+export type TagMetadataValue = string | number | boolean | null;
+
+/**
+ * 소유자가 관리하는 태그 정보
+ */
+export interface TagDetails {
+  nickname?: string;
+  description?: string;
+  metadata?: Record<string, TagMetadataValue>;
+  // 현재 소유자로 등록된 시각 (소유권 이전 / 관리자 재할당 시 갱신, 이전 스캔 기록 구분에 사용)
+  registeredAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * 태그 목록 / 조회 결과
+ */
+export interface TagRecord extends TagDetails {
+  uid: string;
+  owner: string;
+}
+
+/**
+ * 진행 중인 소유권 이전 (받는 사용자가 태그를 스캔하면 완료)
+ */
+export interface TagTransfer {
+  uid: string;
+  from: string;
+  to: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * 사용 중지된 태그 (분실 / 복제 의심)
+ * 등록 해제와 관계없이 UID 기준으로 유지
+ */
+export interface TagRevocation {
+  uid: string;
+  reason?: string;
+  revokedAt: string;
+  revokedBy: string;
+}
+
+/**
+ * 공개 검증 페이지에 표시할 제품 정보 (UID별, 관리자가 설정)
+ * 소유자 등록과 관계없이 UID 기준으로 유지
+ */
+export interface ProductInfo {
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  url?: string;
+  // 그 밖에 표시할 항목 (예: 제조일, 일련번호)
+  attributes?: Record<string, string>;
+}
+
+export type WebhookEventType =
+  | 'access.granted'
+  | 'access.denied'
+  | 'replay.detected'
+  | 'tag.registered'
+  | 'tag.unregistered'
+  | 'tag.revoked'
+  | 'tag.reinstated';
+
+/**
+ * 웹훅 구독 (관리자가 등록, secret으로 페이로드 HMAC 서명)
+ */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  createdAt: string;
+  createdBy: string;
+}
+
+/**
+ * 웹훅 전송 기록 (구독 하나당 이벤트 하나)
+ * pending: 재시도 대기 (nextAttemptAt 이후), delivered: 2xx 응답, failed: 재시도 횟수 초과
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType;
+  // 전송할 JSON 본문 (재시도에도 같은 본문 사용)
+  payload: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  responseStatus?: number;
+  error?: string;
+}
+
+/**
+ * 요청 제한 확인 결과 (retryAfterMs: 거부된 경우 다시 시도할 수 있을 때까지 남은 시간)
+ */
+export interface RateLimitHit {
+  allowed: boolean;
+  count: number;
+  retryAfterMs: number;
+}
+
+/**
+ * 태그 소유권 / 카운터 저장소 인터페이스
+ */
+export interface TagStore {
+  // 태그 소유자 (UID -> 사용자 이메일)
+  getTagOwner(uid: string): Promise<string | null>;
+  setTagOwner(uid: string, userEmail: string): Promise<void>;
+  deleteTag(uid: string): Promise<void>;
+  listTags(): Promise<Array<{ uid: string; owner: string }>>;
+
+  // 태그 정보 (이름 / 설명 / 메타데이터, deleteTag가 함께 삭제)
+  getTagDetails(uid: string): Promise<TagDetails | null>;
+  setTagDetails(uid: string, details: TagDetails): Promise<void>;
+
+  // 소유권 이전 요청 (태그당 하나, 만료된 요청은 null, deleteTag가 함께 삭제)
+  getTagTransfer(uid: string): Promise<TagTransfer | null>;
+  setTagTransfer(transfer: TagTransfer): Promise<void>;
+  deleteTagTransfer(uid: string): Promise<void>;
+
+  // 사용 중지 목록 (deleteTag와 무관하게 유지)
+  getTagRevocation(uid: string): Promise<TagRevocation | null>;
+  setTagRevocation(revocation: TagRevocation): Promise<void>;
+  deleteTagRevocation(uid: string): Promise<void>;
+  listTagRevocations(): Promise<TagRevocation[]>;
+
+  // 공개 검증용 제품 정보 (deleteTag와 무관하게 유지)
+  getProductInfo(uid: string): Promise<ProductInfo | null>;
+  setProductInfo(uid: string, product: ProductInfo): Promise<void>;
+  deleteProductInfo(uid: string): Promise<void>;
+
+  // 사용자 -> 태그 인덱스 (setTagOwner / deleteTag가 함께 갱신)
+  listUserTags(userEmail: string): Promise<string[]>;
+  // 기존 태그 데이터로 인덱스 재구성 (마이그레이션), 반영된 태그 수 반환
+  rebuildUserTagIndex(): Promise<number>;
+
+  // 리플레이 방지 카운터
+  // 이전 최대값보다 큰 카운터만 원자적으로 저장하고 true 반환 (처음 보는 UID는 0을 포함해 모두 허용)
+  consumeCounter(uid: string, counter: number): Promise<boolean>;
+  getMaxCounter(uid: string): Promise<number>;
+  // 카운터 기록 삭제 (관리자용, 이미 사용된 URL도 다시 통과하게 됨)
+  resetCounter(uid: string): Promise<void>;
+
+  // 태그별로 마지막 검증에 사용된 SDM 키 버전 (키 교체 추적)
+  getTagKeyVersion(uid: string): Promise<number | null>;
+  setTagKeyVersion(uid: string, version: number): Promise<void>;
+  listTagKeyVersions(): Promise<Array<{ uid: string; version: number }>>;
+
+  // 사용자 역할 (NTAG424_ADMIN_EMAILS 외에 저장소로 부여한 역할)
+  getUserRole(email: string): Promise<UserRole | null>;
+  setUserRole(email: string, role: UserRole | null): Promise<void>;
+  listUserRoles(): Promise<Array<{ email: string; role: UserRole }>>;
+
+  // 슬라이딩 윈도 요청 제한 (windowMs 안의 요청이 limit개 미만이면 기록하고 허용)
+  hitRateLimit(key: string, limit: number, windowMs: number): Promise<RateLimitHit>;
+
+  // 이상 탐지 기록 (전체 태그, 최근 ANOMALY_LOG_LIMIT개)
+  appendAnomalyEvent(event: AnomalyEvent): Promise<void>;
+  // 최신순
+  listAnomalyEvents(limit: number): Promise<AnomalyEvent[]>;
+
+  // 웹훅 구독
+  listWebhooks(): Promise<WebhookSubscription[]>;
+  getWebhook(id: string): Promise<WebhookSubscription | null>;
+  setWebhook(webhook: WebhookSubscription): Promise<void>;
+  deleteWebhook(id: string): Promise<void>;
+
+  // 웹훅 전송 기록 (전체 구독, 최근 WEBHOOK_DELIVERY_LOG_LIMIT개)
+  appendWebhookDelivery(delivery: WebhookDelivery): Promise<void>;
+  updateWebhookDelivery(delivery: WebhookDelivery): Promise<void>;
+  // 최신순 (webhookId가 있으면 해당 구독만)
+  listWebhookDeliveries(limit: number, webhookId?: string): Promise<WebhookDelivery[]>;
+  // nextAttemptAt이 지난 pending 기록 (오래된 순)
+  listDueWebhookDeliveries(now: number, limit: number): Promise<WebhookDelivery[]>;
+
+  // 스캔 기록 (태그별 최근 SCAN_HISTORY_LIMIT개)
+  appendScanEvent(event: Omit<ScanEvent, 'id'>): Promise<ScanEvent>;
+  // before: 이 id보다 이전 기록부터 조회 (생략 시 최신부터)
+  listScanEvents(uid: string, options: { before?: number; limit: number }): Promise<ScanEventPage>;
+}
@@ -0,0 +1,386 @@
+import { randomBytes } from 'crypto';
+import { kv } from '@vercel/kv';
+import {
+  ANOMALY_LOG_LIMIT,
+  AnomalyEvent,
+  ProductInfo,
+  SCAN_HISTORY_LIMIT,
+  ScanEvent,
+  TagDetails,
+  TagRevocation,
+  TagStore,
+  TagTransfer,
+  UserRole,
+  WEBHOOK_DELIVERY_LOG_LIMIT,
+  WebhookDelivery,
+  WebhookSubscription,
+} from './types';
+
+/**
+ * Vercel KV (Upstash Redis) 저장소
+ * - tag:{uid} -> 사용자 이메일
+ * - tag_details:{uid} -> 태그 정보 (이름 / 설명 / 메타데이터)
+ * - product:{uid} -> 공개 검증용 제품 정보
+ * - transfer:{uid} -> 진행 중인 소유권 이전 (만료 시각에 자동 삭제)
+ * - user_tags:{email} -> 사용자의 태그 UID set (인덱스)
+ * - counters:{uid} -> 사용된 카운터 sorted set (최근 1000개)
+ * - tag_key_versions -> UID별 SDM 키 버전 hash
+ * - user_roles -> 이메일별 역할 hash
+ * - revoked_tags -> UID별 사용 중지 정보 hash
+ * - ratelimit:{name} -> 요청 시각 sorted set (슬라이딩 윈도)
+ * - anomalies -> 이상 탐지 기록 list (최신순, 최근 1000개)
+ * - webhooks -> 웹훅 구독 hash (id -> 구독)
+ * - webhook_delivery:{id} -> 웹훅 전송 기록 (30일 후 만료)
+ * - webhook_deliveries -> 전송 기록 id list (최신순, 최근 1000개)
+ * - webhook_retries -> 재시도 대기 중인 전송 id sorted set (score = 다음 시도 시각)
+ * - scans:{uid} -> 스캔 기록 sorted set (score = 순번), scan_seq:{uid} -> 마지막 순번
+ */
+
+// 카운터 원자적 비교 후 갱신 (한 번의 스크립트 실행)
+const CONSUME_COUNTER_SCRIPT = `
+local counter = tonumber(ARGV[1])
+local max = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+if #max > 0 and tonumber(max[2]) >= counter then
+  return 0
+end
+redis.call('ZADD', KEYS[1], counter, ARGV[1])
+local count = redis.call('ZCARD', KEYS[1])
+if count > 1000 then
+  redis.call('ZPOPMIN', KEYS[1], count - 1000)
+end
+return 1
+`;
+
+// 슬라이딩 윈도 요청 제한 (윈도 밖의 기록 정리 후 개수 확인, 허용되면 기록)
+// 반환: { 허용 여부(1/0), 윈도 안의 요청 수, 재시도까지 남은 ms }
+const RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now - window)
+local count = redis.call('ZCARD', KEYS[1])
+if count >= limit then
+  local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+  return { 0, count, tonumber(oldest[2]) + window - now }
+end
+redis.call('ZADD', KEYS[1], now, ARGV[4])
+redis.call('PEXPIRE', KEYS[1], window)
+return { 1, count + 1, 0 }
+`;
+
+const KEY_VERSIONS_KEY = 'tag_key_versions';
+const USER_ROLES_KEY = 'user_roles';
+const REVOKED_TAGS_KEY = 'revoked_tags';
+const ANOMALIES_KEY = 'anomalies';
+const WEBHOOKS_KEY = 'webhooks';
+const WEBHOOK_DELIVERIES_KEY = 'webhook_deliveries';
+const WEBHOOK_RETRIES_KEY = 'webhook_retries';
+const WEBHOOK_DELIVERY_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * 전송 기록 저장 및 재시도 대기열 갱신 (multi 안에서 호출)
+ */
+function saveWebhookDelivery(tx: ReturnType<typeof kv.multi>, delivery: WebhookDelivery): void {
+  tx.set(`webhook_delivery:${delivery.id}`, delivery, { ex: WEBHOOK_DELIVERY_TTL_SECONDS });
+  if (delivery.status === 'pending' && delivery.nextAttemptAt) {
+    tx.zadd(WEBHOOK_RETRIES_KEY, { score: Date.parse(delivery.nextAttemptAt), member: delivery.id });
+  } else {
+    tx.zrem(WEBHOOK_RETRIES_KEY, delivery.id);
+  }
+}
+
+/**
+ * id 목록의 전송 기록 조회 (만료된 기록 제외)
+ */
+async function getWebhookDeliveries(ids: string[]): Promise<WebhookDelivery[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+  const deliveries = await kv.mget<Array<WebhookDelivery | null>>(...ids.map((id) => `webhook_delivery:${id}`));
+  return deliveries.filter((delivery): delivery is WebhookDelivery => delivery !== null);
+}
+
+export function createVercelKVStore(): TagStore {
+  return {
+    async getTagOwner(uid) {
+      const key = `tag:${uid}`;
+      console.log('[KV] Getting key:', key);
+      const result = await kv.get<string>(key);
+      console.log('[KV] Get result:', result);
+      return result;
+    },
+
+    async setTagOwner(uid, userEmail) {
+      const key = `tag:${uid}`;
+      console.log('[KV] Setting key:', key, 'value:', userEmail);
+
+      // 소유자가 바뀌는 경우 이전 소유자의 인덱스에서도 제거
+      const previousOwner = await kv.get<string>(key);
+      const tx = kv.multi();
+      tx.set(key, userEmail);
+      if (previousOwner && previousOwner !== userEmail) {
+        tx.srem(`user_tags:${previousOwner}`, uid);
+      }
+      tx.sadd(`user_tags:${userEmail}`, uid);
+      await tx.exec();
+
+      console.log('[KV] Set complete');
+    },
+
+    async deleteTag(uid) {
+      const key = `tag:${uid}`;
+      const owner = await kv.get<string>(key);
+      const tx = kv.multi();
+      tx.del(key);
+      tx.del(`tag_details:${uid}`);
+      tx.del(`transfer:${uid}`);
+      if (owner) {
+        tx.srem(`user_tags:${owner}`, uid);
+      }
+      await tx.exec();
+    },
+
+    async listTags() {
+      const keys = await kv.keys('tag:*');
+      const tags: Array<{ uid: string; owner: string }> = [];
+
+      for (const key of keys) {
+        const owner = await kv.get<string>(key);
+        if (owner) {
+          tags.push({ uid: key.replace('tag:', ''), owner });
+        }
+      }
+
+      return tags;
+    },
+
+    async getTagDetails(uid) {
+      return kv.get<TagDetails>(`tag_details:${uid}`);
+    },
+
+    async setTagDetails(uid, details) {
+      await kv.set(`tag_details:${uid}`, details);
+    },
+
+    async getTagTransfer(uid) {
+      return kv.get<TagTransfer>(`transfer:${uid}`);
+    },
+
+    async setTagTransfer(transfer) {
+      await kv.set(`transfer:${transfer.uid}`, transfer, { pxat: Date.parse(transfer.expiresAt) });
+    },
+
+    async deleteTagTransfer(uid) {
+      await kv.del(`transfer:${uid}`);
+    },
+
+    async getTagRevocation(uid) {
+      return kv.hget<TagRevocation>(REVOKED_TAGS_KEY, uid);
+    },
+
+    async setTagRevocation(revocation) {
+      await kv.hset(REVOKED_TAGS_KEY, { [revocation.uid]: revocation });
+    },
+
+    async deleteTagRevocation(uid) {
+      await kv.hdel(REVOKED_TAGS_KEY, uid);
+    },
+
+    async listTagRevocations() {
+      const revocations = (await kv.hgetall<Record<string, TagRevocation>>(REVOKED_TAGS_KEY)) ?? {};
+      return Object.values(revocations);
+    },
+
+    async getProductInfo(uid) {
+      return kv.get<ProductInfo>(`product:${uid}`);
+    },
+
+    async setProductInfo(uid, product) {
+      await kv.set(`product:${uid}`, product);
+    },
+
+    async deleteProductInfo(uid) {
+      await kv.del(`product:${uid}`);
+    },
+
+    async listUserTags(userEmail) {
+      return kv.smembers(`user_tags:${userEmail}`);
+    },
+
+    async rebuildUserTagIndex() {
+      // 기존 인덱스 삭제 후 tag:* 키로부터 다시 채움
+      for await (const key of kv.scanIterator({ match: 'user_tags:*' })) {
+        await kv.del(key);
+      }
+
+      let count = 0;
+      for await (const key of kv.scanIterator({ match: 'tag:*' })) {
+        const owner = await kv.get<string>(key);
+        if (owner) {
+          await kv.sadd(`user_tags:${owner}`, key.replace('tag:', ''));
+          count++;
+        }
+      }
+
+      return count;
+    },
+
+    async consumeCounter(uid, counter) {
+      const result = await kv.eval<[string], number>(
+        CONSUME_COUNTER_SCRIPT,
+        [`counters:${uid}`],
+        [counter.toString()]
+      );
+      return result === 1;
+    },
+
+    async getMaxCounter(uid) {
+      const max = await kv.zrange(`counters:${uid}`, -1, -1, { withScores: true }) as Array<{member: string, score: number}>;
+      if (max.length === 0) return 0;
+      return max[0].score;
+    },
+
+    async resetCounter(uid) {
+      await kv.del(`counters:${uid}`);
+    },
+
+    async getTagKeyVersion(uid) {
+      const version = await kv.hget<number>(KEY_VERSIONS_KEY, uid);
+      return version ?? null;
+    },
+
+    async setTagKeyVersion(uid, version) {
+      await kv.hset(KEY_VERSIONS_KEY, { [uid]: version });
+    },
+
+    async listTagKeyVersions() {
+      const versions = (await kv.hgetall<Record<string, number>>(KEY_VERSIONS_KEY)) ?? {};
+      return Object.entries(versions).map(([uid, version]) => ({ uid, version: Number(version) }));
+    },
+
+    async getUserRole(email) {
+      return kv.hget<UserRole>(USER_ROLES_KEY, email);
+    },
+
+    async setUserRole(email, role) {
+      if (role) {
+        await kv.hset(USER_ROLES_KEY, { [email]: role });
+      } else {
+        await kv.hdel(USER_ROLES_KEY, email);
+      }
+    },
+
+    async listUserRoles() {
+      const roles = (await kv.hgetall<Record<string, UserRole>>(USER_ROLES_KEY)) ?? {};
+      return Object.entries(roles).map(([email, role]) => ({ email, role }));
+    },
+
+    async hitRateLimit(key, limit, windowMs) {
+      const now = Date.now();
+      // 같은 ms에 들어온 요청도 따로 기록되도록 member에 임의 값 추가
+      const member = `${now}:${randomBytes(4).toString('hex')}`;
+      const [allowed, count, retryAfterMs] = await kv.eval<string[], [number, number, number]>(
+        RATE_LIMIT_SCRIPT,
+        [`ratelimit:${key}`],
+        [now.toString(), windowMs.toString(), limit.toString(), member]
+      );
+      return { allowed: allowed === 1, count, retryAfterMs };
+    },
+
+    async appendAnomalyEvent(event) {
+      const tx = kv.multi();
+      tx.lpush(ANOMALIES_KEY, event);
+      tx.ltrim(ANOMALIES_KEY, 0, ANOMALY_LOG_LIMIT - 1);
+      await tx.exec();
+    },
+
+    async listAnomalyEvents(limit) {
+      return kv.lrange<AnomalyEvent>(ANOMALIES_KEY, 0, limit - 1);
+    },
+
+    async listWebhooks() {
+      const webhooks = (await kv.hgetall<Record<string, WebhookSubscription>>(WEBHOOKS_KEY)) ?? {};
+      return Object.values(webhooks);
+    },
+
+    async getWebhook(id) {
+      return kv.hget<WebhookSubscription>(WEBHOOKS_KEY, id);
+    },
+
+    async setWebhook(webhook) {
+      await kv.hset(WEBHOOKS_KEY, { [webhook.id]: webhook });
+    },
+
+    async deleteWebhook(id) {
+      await kv.hdel(WEBHOOKS_KEY, id);
+    },
+
+    async appendWebhookDelivery(delivery) {
+      const tx = kv.multi();
+      saveWebhookDelivery(tx, delivery);
+      tx.lpush(WEBHOOK_DELIVERIES_KEY, delivery.id);
+      tx.ltrim(WEBHOOK_DELIVERIES_KEY, 0, WEBHOOK_DELIVERY_LOG_LIMIT - 1);
+      await tx.exec();
+    },
+
+    async updateWebhookDelivery(delivery) {
+      const tx = kv.multi();
+      saveWebhookDelivery(tx, delivery);
+      await tx.exec();
+    },
+
+    async listWebhookDeliveries(limit, webhookId) {
+      // 구독별 조회는 보관 중인 전체 기록에서 필터링
+      const ids = await kv.lrange<string>(WEBHOOK_DELIVERIES_KEY, 0, (webhookId ? WEBHOOK_DELIVERY_LOG_LIMIT : limit) - 1);
+      const deliveries = await getWebhookDeliveries(ids);
+      return deliveries.filter((delivery) => webhookId === undefined || delivery.webhookId === webhookId).slice(0, limit);
+    },
+
+    async listDueWebhookDeliveries(now, limit) {
+      const ids = await kv.zrange<string[]>(WEBHOOK_RETRIES_KEY, 0, now, { byScore: true, offset: 0, count: limit });
+      if (ids.length === 0) {
+        return [];
+      }
+      const deliveries = await kv.mget<Array<WebhookDelivery | null>>(...ids.map((id) => `webhook_delivery:${id}`));
+
+      // 전송 기록이 만료(30일)된 id는 재시도 대기열에서 제거
+      const expired = ids.filter((_, index) => deliveries[index] === null);
+      if (expired.length > 0) {
+        console.log('[KV] Removing expired webhook retries:', expired.length);
+        await kv.zrem(WEBHOOK_RETRIES_KEY, ...expired);
+      }
+
+      return deliveries.filter((delivery): delivery is WebhookDelivery => delivery !== null);
+    },
+
+    async appendScanEvent(event) {
+      const id = await kv.incr(`scan_seq:${event.uid}`);
+      const saved: ScanEvent = { ...event, id };
+      const key = `scans:${event.uid}`;
+
+      const tx = kv.multi();
+      tx.zadd(key, { score: id, member: saved });
+      // 오래된 기록 정리 (최근 SCAN_HISTORY_LIMIT개 유지)
+      tx.zremrangebyrank(key, 0, -(SCAN_HISTORY_LIMIT + 1));
+      await tx.exec();
+
+      return saved;
+    },
+
+    async listScanEvents(uid, { before, limit }) {
+      // 최신순으로 limit + 1개를 읽어 다음 페이지 존재 여부 확인
+      const max: '+inf' | `(${number}` = before === undefined ? '+inf' : `(${before}`;
+      const events = await kv.zrange<ScanEvent[]>(`scans:${uid}`, max, '-inf', {
+        byScore: true,
+        rev: true,
+        offset: 0,
+        count: limit + 1,
+      });
+      const page = events.slice(0, limit);
+      return {
+        events: page,
+        nextCursor: events.length > limit ? page[page.length - 1].id : null,
+      };
+    },
+  };
+}
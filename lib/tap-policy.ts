@@ -0,0 +1,113 @@
+import { NextRequest } from 'next/server';
+import { getScanHistory, recordAnomaly, revokeTag } from './kv';
+import { logScan } from './audit';
+import { getClientInfo } from './client';
+import { isSealOpened } from './ntag424';
+import type { TagTamperStatus } from './ntag424';
+import { Anomaly, detectAnomalies, getAnomalyPolicyFromEnv, resolveAnomalyAction } from './anomaly';
+
+/**
+ * 카운터를 사용한 스캔에 적용하는 이상 탐지 / 봉인 정책
+ * /api/verify-tag와 /api/public/verify가 같은 정책을 쓰도록 공통으로 사용
+ */
+
+// 이상 탐지 정책으로 태그를 사용 중지할 때의 revokedBy
+export const ANOMALY_REVOKER = 'anomaly-policy';
+
+// 열린 봉인 처리: reject (접근 거부) 또는 flag (응답에 경고 표시, 기본값)
+export type TamperPolicy = 'reject' | 'flag';
+
+/**
+ * 정책으로 거부된 스캔 (스캔 기록은 이미 저장됨)
+ */
+export interface TapDenial {
+  code: 'REVOKED' | 'REAUTH_REQUIRED' | 'TAMPERED';
+  reason: string;
+}
+
+/**
+ * 이상 탐지 대상 스캔
+ * user / authTime: 로그인하지 않은 공개 검증은 undefined (reauth 조치는 항상 거부)
+ */
+export interface PolicyTap {
+  uid: string;
+  counter?: number;
+  user?: string;
+  authTime?: number;
+}
+
+export function getTamperPolicyFromEnv(): TamperPolicy {
+  return process.env.NTAG424_TAMPER_POLICY === 'reject' ? 'reject' : 'flag';
+}
+
+/**
+ * 열린 봉인 또는 인증되지 않은 TT 상태인지 확인
+ */
+export function isTamperFlagged(tamper: TagTamperStatus | undefined): boolean {
+  return !!tamper && (isSealOpened(tamper) || !tamper.authenticated);
+}
+
+/**
+ * 카운터 증가폭 / 스캔 속도 이상 탐지
+ * suspend는 태그를 사용 중지하고, reauth는 최근에 로그인한 세션이 아니면 거부 (이때 denial 반환)
+ * previousCounter: 검증으로 카운터가 갱신되기 전의 최대 카운터
+ */
+export async function applyAnomalyPolicy(
+  request: NextRequest,
+  tap: PolicyTap,
+  previousCounter: number
+): Promise<{ anomalies: Anomaly[]; denial?: TapDenial }> {
+  const policy = getAnomalyPolicyFromEnv();
+  const counter = tap.counter ?? 0;
+  const { ip } = getClientInfo(request);
+  const { events } = await getScanHistory(tap.uid, 20);
+
+  const anomalies = detectAnomalies({ counter, previousCounter, user: tap.user, ip, timestamp: Date.now(), recentScans: events }, policy);
+  const action = resolveAnomalyAction(anomalies);
+  if (!action) {
+    return { anomalies };
+  }
+
+  console.log('[POLICY] Anomalies detected:', { uid: tap.uid, action, anomalies });
+  try {
+    await recordAnomaly({ uid: tap.uid, timestamp: new Date().toISOString(), user: tap.user, counter, ip, action, anomalies });
+  } catch (error) {
+    console.error('[POLICY] Failed to record anomaly:', error);
+  }
+
+  const reason = anomalies.map((anomaly) => anomaly.detail).join('; ');
+
+  if (action === 'suspend') {
+    const revocation = await revokeTag(tap.uid, ANOMALY_REVOKER, `Suspended automatically: ${reason}`);
+    await logScan(request, tap.uid, ANOMALY_REVOKER, { success: true, action: 'revoked', reason: revocation.reason });
+    await logScan(request, tap.uid, tap.user, { success: false, code: 'REVOKED', reason, counter, anomalies });
+    return { anomalies, denial: { code: 'REVOKED', reason: `Tag suspended: ${reason}` } };
+  }
+
+  if (action === 'reauth') {
+    const age = tap.authTime ? Date.now() / 1000 - tap.authTime : Infinity;
+    if (age > policy.reauthMaxAgeSeconds) {
+      await logScan(request, tap.uid, tap.user, { success: false, code: 'REAUTH_REQUIRED', reason, counter, anomalies });
+      return { anomalies, denial: { code: 'REAUTH_REQUIRED', reason } };
+    }
+  }
+
+  return { anomalies };
+}
+
+/**
+ * 봉인 정책이 reject이고 봉인이 열렸으면 거부 (스캔 기록 포함), 아니면 null
+ */
+export async function applyTamperPolicy(
+  request: NextRequest,
+  tap: PolicyTap & { tamper?: TagTamperStatus },
+  policy: TamperPolicy
+): Promise<TapDenial | null> {
+  if (policy !== 'reject' || !isTamperFlagged(tap.tamper)) {
+    return null;
+  }
+
+  const reason = tap.tamper!.authenticated ? 'Tag seal has been opened' : 'Tag tamper status could not be authenticated';
+  await logScan(request, tap.uid, tap.user, { success: false, code: 'TAMPERED', reason, counter: tap.counter });
+  return { code: 'TAMPERED', reason };
+}
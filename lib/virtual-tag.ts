@@ -0,0 +1,46 @@
+import { randomBytes } from 'crypto';
+import { SUNMessageParams, generateSUNMessage } from './ntag424';
+
+/**
+ * 가상 NTAG424 태그 (테스트 / 데모 / 부하 테스트용)
+ * 탭할 때마다 SDMReadCtr를 증가시키고 새 SUN 메시지 URL을 생성
+ */
+
+export interface VirtualTag {
+  readonly uid: string;
+  // 마지막 탭의 SDMReadCtr (탭 전이면 초기값)
+  readonly counter: number;
+  tap(): Promise<string>;
+}
+
+/**
+ * uid: 생략 시 NXP 제조사 코드(04)로 시작하는 임의 UID
+ * counter: 초기 SDMReadCtr (첫 탭은 counter + 1, 기본 0)
+ */
+export type VirtualTagOptions = Omit<SUNMessageParams, 'uid' | 'counter'> & {
+  uid?: string;
+  counter?: number;
+};
+
+const MAX_COUNTER = 0xffffff;
+
+export function createVirtualTag(options: VirtualTagOptions): VirtualTag {
+  const uid = (options.uid ?? `04${randomBytes(6).toString('hex')}`).toUpperCase();
+  let counter = options.counter ?? 0;
+
+  return {
+    uid,
+
+    get counter() {
+      return counter;
+    },
+
+    async tap() {
+      if (counter >= MAX_COUNTER) {
+        throw new Error('SDMReadCtr limit reached');
+      }
+      counter++;
+      return generateSUNMessage({ ...options, uid, counter });
+    },
+  };
+}
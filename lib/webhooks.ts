@@ -0,0 +1,285 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { waitUntil } from '@vercel/functions';
+import { getDueWebhookDeliveries, getWebhook, listWebhooks, recordWebhookDelivery, updateWebhookDelivery } from './kv';
+import type { ScanEvent, WebhookDelivery, WebhookEventType, WebhookSubscription } from './store/types';
+
+/**
+ * 검증 / 태그 관리 이벤트를 구독한 URL로 전송 (HMAC 서명)
+ * 전송 기록만 저장하고 첫 시도는 응답을 기다리지 않고 백그라운드에서 수행
+ * (Vercel에서는 waitUntil로 응답 후에도 함수가 첫 시도를 마칠 때까지 유지)
+ * 실패했거나 끝나지 않은 전송은 재시도 간격에 따라 /api/cron/webhooks가 다시 전송 (vercel.json crons)
+ *
+ * 요청 헤더
+ * - X-NTAG424-Event: 이벤트 종류
+ * - X-NTAG424-Delivery: 전송 id (재시도에도 같은 값)
+ * - X-NTAG424-Signature: t=<unix 초>,v1=<HMAC-SHA256(secret, "<t>.<본문>") hex>
+ */
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'access.granted',
+  'access.denied',
+  'replay.detected',
+  'tag.registered',
+  'tag.unregistered',
+  'tag.revoked',
+  'tag.reinstated',
+];
+
+// 구독 조회 응답 (secret은 생성할 때만 반환)
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+export interface WebhookPolicy {
+  // n번째 실패 후 다음 시도까지 기다리는 시간 (초), 모두 실패하면 failed
+  retryDelaysSeconds: number[];
+  timeoutMs: number;
+}
+
+const REPLAY_CODES = ['REPLAY', 'COUNTER_REGRESSION'];
+
+// 백그라운드에서 진행 중인 첫 전송
+const inFlight = new Set<Promise<unknown>>();
+
+/**
+ * 환경 변수로부터 전송 정책 생성
+ * - NTAG424_WEBHOOK_RETRY_SECONDS: 재시도 간격 목록 (쉼표 구분, 기본 30,120,600,3600,21600)
+ * - NTAG424_WEBHOOK_TIMEOUT_MS: 요청 제한 시간 (기본 5000)
+ */
+export function getWebhookPolicyFromEnv(): WebhookPolicy {
+  const delays = (process.env.NTAG424_WEBHOOK_RETRY_SECONDS ?? '30,120,600,3600,21600')
+    .split(',')
+    .map((value) => parseInt(value.trim(), 10))
+    .filter((value) => Number.isInteger(value) && value >= 0);
+  const timeoutMs = parseInt(process.env.NTAG424_WEBHOOK_TIMEOUT_MS || '', 10);
+
+  return {
+    retryDelaysSeconds: delays,
+    timeoutMs: Number.isInteger(timeoutMs) && timeoutMs > 0 ? timeoutMs : 5000,
+  };
+}
+
+/**
+ * 스캔 기록에 해당하는 웹훅 이벤트 (없으면 null)
+ */
+export function getWebhookEventType(event: Omit<ScanEvent, 'id'>): WebhookEventType | null {
+  switch (event.action) {
+    case undefined:
+      if (event.success) {
+        return 'access.granted';
+      }
+      return event.code && REPLAY_CODES.includes(event.code) ? 'replay.detected' : 'access.denied';
+    case 'registered':
+      return 'tag.registered';
+    case 'unregistered':
+    case 'admin-unregistered':
+      return 'tag.unregistered';
+    case 'revoked':
+      return 'tag.revoked';
+    case 'reinstated':
+      return 'tag.reinstated';
+    default:
+      return null;
+  }
+}
+
+/**
+ * 구독 요청 본문 검증 ({ url, events? }, events를 생략하면 모든 이벤트)
+ */
+export function parseWebhookRequest(body: unknown): { url: string; events: WebhookEventType[] } | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const { url, events } = body as Record<string, unknown>;
+
+  let parsedUrl: URL | null = null;
+  try {
+    parsedUrl = typeof url === 'string' ? new URL(url) : null;
+  } catch {
+    parsedUrl = null;
+  }
+  if (!parsedUrl || (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:')) {
+    return { error: 'url must be an http(s) URL' };
+  }
+
+  if (events === undefined) {
+    return { url: parsedUrl.toString(), events: [...WEBHOOK_EVENT_TYPES] };
+  }
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    events.some((event) => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType))
+  ) {
+    return { error: `events must be a non-empty list of: ${WEBHOOK_EVENT_TYPES.join(', ')}` };
+  }
+
+  const unique = (events as WebhookEventType[]).filter((event, index, all) => all.indexOf(event) === index);
+  return { url: parsedUrl.toString(), events: unique };
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * X-NTAG424-Signature 헤더 값 (수신 측은 같은 방식으로 계산해 비교)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, payload: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export function toPublicWebhook({ secret: _secret, ...webhook }: WebhookSubscription): PublicWebhookSubscription {
+  return webhook;
+}
+
+/**
+ * 한 번 전송하고 결과에 따라 전송 기록 갱신 (2xx만 성공, 리다이렉트는 따라가지 않음)
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  webhook: WebhookSubscription,
+  policy: WebhookPolicy
+): Promise<WebhookDelivery> {
+  const now = Date.now();
+  const timestamp = Math.floor(now / 1000);
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ntag424-webhooks',
+        'X-NTAG424-Event': delivery.event,
+        'X-NTAG424-Delivery': delivery.id,
+        'X-NTAG424-Signature': signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(policy.timeoutMs),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (e) {
+    error = e instanceof Error ? e.message : 'Unknown error';
+  }
+
+  const attempts = delivery.attempts + 1;
+  const delaySeconds = policy.retryDelaysSeconds[attempts - 1];
+  const updated: WebhookDelivery = {
+    ...delivery,
+    attempts,
+    lastAttemptAt: new Date(now).toISOString(),
+    responseStatus,
+    error,
+    status: !error ? 'delivered' : delaySeconds === undefined ? 'failed' : 'pending',
+    nextAttemptAt: error && delaySeconds !== undefined ? new Date(now + delaySeconds * 1000).toISOString() : undefined,
+  };
+
+  console.log('[WEBHOOK] Delivery attempt:', {
+    id: delivery.id,
+    event: delivery.event,
+    url: webhook.url,
+    attempts,
+    status: updated.status,
+    error,
+  });
+  await updateWebhookDelivery(updated);
+  return updated;
+}
+
+/**
+ * 이벤트를 구독한 모든 웹훅의 전송 기록 저장 후 반환 (status: pending)
+ * 첫 시도는 기다리지 않으므로 느리거나 응답 없는 구독이 검증 응답을 늦추지 않음
+ * 다음 시도 시각은 첫 시도가 끝난 뒤로 잡아 스케줄러와 동시에 전송하지 않음
+ * (첫 시도가 중단되어도 그 시각에 스케줄러가 전송)
+ */
+export async function dispatchWebhookEvent(type: WebhookEventType, data: Record<string, unknown>): Promise<WebhookDelivery[]> {
+  const webhooks = (await listWebhooks()).filter((webhook) => webhook.events.includes(type));
+  if (webhooks.length === 0) {
+    return [];
+  }
+
+  const policy = getWebhookPolicyFromEnv();
+  const now = Date.now();
+  const createdAt = new Date(now).toISOString();
+  const firstRetryMs = Math.max((policy.retryDelaysSeconds[0] ?? 0) * 1000, policy.timeoutMs);
+  const payload = JSON.stringify({ id: randomUUID(), type, createdAt, data });
+
+  return Promise.all(
+    webhooks.map(async (webhook) => {
+      const delivery: WebhookDelivery = {
+        id: randomUUID(),
+        webhookId: webhook.id,
+        event: type,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        createdAt,
+        nextAttemptAt: new Date(now + firstRetryMs).toISOString(),
+      };
+      await recordWebhookDelivery(delivery);
+
+      const attempt = attemptDelivery(delivery, webhook, policy)
+        .catch((error) => console.error('[WEBHOOK] Delivery attempt failed:', error))
+        .finally(() => inFlight.delete(attempt));
+      inFlight.add(attempt);
+      waitUntil(attempt);
+      return delivery;
+    })
+  );
+}
+
+/**
+ * 백그라운드에서 진행 중인 첫 전송이 모두 끝날 때까지 대기 (테스트 / 종료 처리용)
+ */
+export async function waitForWebhookDeliveries(): Promise<void> {
+  while (inFlight.size > 0) {
+    await Promise.all(Array.from(inFlight));
+  }
+}
+
+/**
+ * 스캔 기록을 웹훅 이벤트로 전송 (해당 이벤트가 없는 관리 작업은 무시)
+ */
+export async function dispatchScanWebhook(event: Omit<ScanEvent, 'id'>): Promise<WebhookDelivery[]> {
+  const type = getWebhookEventType(event);
+  if (!type) {
+    return [];
+  }
+
+  return dispatchWebhookEvent(type, {
+    uid: event.uid,
+    user: event.user ?? null,
+    timestamp: event.timestamp,
+    counter: event.counter,
+    code: event.code,
+    reason: event.reason,
+    target: event.target,
+    anomalies: event.anomalies,
+  });
+}
+
+/**
+ * 다시 시도할 시각이 지난 전송 재시도 (구독이 삭제되었으면 failed)
+ */
+export async function retryDueWebhookDeliveries(limit = 50, now = Date.now()): Promise<WebhookDelivery[]> {
+  const policy = getWebhookPolicyFromEnv();
+  const results: WebhookDelivery[] = [];
+
+  for (const delivery of await getDueWebhookDeliveries(now, limit)) {
+    const webhook = await getWebhook(delivery.webhookId);
+    if (!webhook) {
+      const failed: WebhookDelivery = { ...delivery, status: 'failed', nextAttemptAt: undefined, error: 'Webhook subscription deleted' };
+      await updateWebhookDelivery(failed);
+      results.push(failed);
+      continue;
+    }
+    results.push(await attemptDelivery(delivery, webhook, policy));
+  }
+
+  return results;
+}
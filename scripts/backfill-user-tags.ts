@@ -0,0 +1,19 @@
+import { backfillUserTagIndex } from '../lib/kv';
+
+/**
+ * 사용자 -> 태그 인덱스 마이그레이션
+ * 기존 tag:* 데이터로 user_tags:* 인덱스를 다시 채움 (여러 번 실행해도 안전)
+ *
+ * 실행: npm run migrate:user-tags (.env.local의 저장소 설정 사용)
+ */
+
+async function main() {
+  console.log('=== Backfilling user tag index ===');
+  const count = await backfillUserTagIndex();
+  console.log(`✅ Indexed ${count} tags`);
+}
+
+main().catch((error) => {
+  console.error('❌ Migration failed:', error);
+  process.exit(1);
+});
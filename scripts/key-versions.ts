@@ -0,0 +1,38 @@
+import { getKeyringFromEnv } from '../lib/keys';
+import { listTagKeyVersions } from '../lib/kv';
+
+/**
+ * 태그별 SDM 키 버전 보고서
+ * 마지막 검증에 사용된 키 버전별로 태그를 나열하고 회수된 키를 쓰는 태그를 표시
+ *
+ * 실행: npm run keys:report (.env.local의 키 목록 / 저장소 설정 사용)
+ */
+
+async function main() {
+  const keyring = getKeyringFromEnv() ?? [];
+  const retired = new Set(keyring.filter((entry) => entry.retired).map((entry) => entry.version));
+  const tags = await listTagKeyVersions();
+
+  const byVersion = new Map<number, string[]>();
+  for (const { uid, version } of tags) {
+    byVersion.set(version, [...(byVersion.get(version) ?? []), uid]);
+  }
+
+  console.log('=== SDM key versions ===');
+  for (const version of Array.from(byVersion.keys()).sort((a, b) => b - a)) {
+    const uids = byVersion.get(version)!;
+    const label = retired.has(version) ? ' (retired)' : keyring.some((entry) => entry.version === version) ? '' : ' (unknown)';
+    console.log(`v${version}${label}: ${uids.length} tags`);
+    for (const uid of uids) {
+      console.log(`  ${uid}`);
+    }
+  }
+
+  const pending = tags.filter(({ version }) => retired.has(version)).length;
+  console.log(pending > 0 ? `⚠️  ${pending} tags still use a retired key` : '✅ No tags use a retired key');
+}
+
+main().catch((error) => {
+  console.error('❌ Report failed:', error);
+  process.exit(1);
+});
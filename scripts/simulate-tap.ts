@@ -0,0 +1,31 @@
+import { getKeyringFromEnv } from '../lib/keys';
+import { createVirtualTag } from '../lib/virtual-tag';
+
+/**
+ * 가상 태그로 SUN 메시지 URL 생성 (실제 태그 없이 검증 흐름 확인)
+ * 가장 최신 버전의 키 (.env.local의 NTAG424_KEYRING 또는 단일 키 설정) 사용
+ *
+ * 실행: npm run simulate:tap -- [URL 템플릿] [탭 횟수] [UID]
+ * 예: npm run simulate:tap -- "http://localhost:3000/?picc_data={picc_data}&cmac={cmac}" 3
+ */
+
+async function main() {
+  const [url = 'http://localhost:3000/?picc_data={picc_data}&cmac={cmac}', count = '1', uid] = process.argv.slice(2);
+
+  const keyring = getKeyringFromEnv();
+  if (!keyring || keyring.length === 0) {
+    throw new Error('SDM keys are not configured');
+  }
+
+  const tag = createVirtualTag({ url, uid, keys: keyring[0].provider });
+  console.log(`=== Virtual tag ${tag.uid} (key version ${keyring[0].version}) ===`);
+
+  for (let i = 0; i < parseInt(count, 10); i++) {
+    console.log(await tag.tap());
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Simulation failed:', error);
+  process.exit(1);
+});
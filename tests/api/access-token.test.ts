@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { NextRequest } from 'next/server';
+import { POST as verifyTag } from '@/app/api/verify-tag/route';
+import { POST as introspect } from '@/app/api/token/introspect/route';
+import { GET as jwks } from '@/app/api/token/jwks/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { registerTag, revokeTag } from '@/lib/kv';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+import { ENCRYPTED_PICC, ZERO_KEY } from '../helpers/vectors';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const OWNER = 'owner@example.com';
+const UID = ENCRYPTED_PICC.uid;
+const SIGNING_KEY = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+  .privateKey.export({ format: 'pem', type: 'pkcs8' })
+  .toString();
+const CLIENT_AUTH = { Authorization: `Basic ${Buffer.from('backend:s3cret').toString('base64')}` };
+
+async function tap(): Promise<string> {
+  const response = await verifyTag(jsonRequest('/api/verify-tag', 'POST', { piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac }));
+  const body = await response.json();
+  return body.data.accessToken;
+}
+
+async function check(body: unknown) {
+  return (await introspect(jsonRequest('/api/token/introspect', 'POST', body, CLIENT_AUTH))).json();
+}
+
+describe('access tokens issued by /api/verify-tag', () => {
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_AES_KEY', ZERO_KEY);
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', SIGNING_KEY);
+    vi.stubEnv('NTAG424_INTROSPECTION_CLIENTS', 'backend:s3cret');
+    mockSession(OWNER);
+    await registerTag(UID, OWNER);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns a token with the tap claims', async () => {
+    const response = await verifyTag(jsonRequest('/api/verify-tag', 'POST', { piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac }));
+    const body = await response.json();
+    expect(body.data.accessToken).toMatch(/^[\w-]+\.[\w-]+\.[\w-]+$/);
+    expect(Date.parse(body.data.accessTokenExpiresAt)).toBeGreaterThan(Date.now());
+
+    expect(await check({ token: body.data.accessToken })).toMatchObject({
+      active: true,
+      sub: OWNER,
+      uid: UID,
+      ctr: ENCRYPTED_PICC.counter,
+    });
+  });
+
+  it('omits the token when no signing key is configured', async () => {
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', '');
+    expect(await tap()).toBeUndefined();
+  });
+
+  it('fails before verifying the tag when the signing key is invalid', async () => {
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', 'not a key');
+    const response = await verifyTag(jsonRequest('/api/verify-tag', 'POST', { piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac }));
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ code: 'CONFIGURATION' });
+    // 카운터가 소비되지 않았으므로 같은 URL로 다시 성공
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', SIGNING_KEY);
+    expect(await tap()).toBeDefined();
+  });
+
+  it('accepts form-encoded introspection requests', async () => {
+    const token = await tap();
+    const response = await introspect(
+      new NextRequest('http://localhost/api/token/introspect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...CLIENT_AUTH },
+        body: new URLSearchParams({ token }).toString(),
+      })
+    );
+    expect(await response.json()).toMatchObject({ active: true, uid: UID });
+  });
+
+  it('reports a tap older than max_age as inactive', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const token = await tap();
+      vi.setSystemTime(Date.now() + 120_000);
+      expect(await check({ token, max_age: 60 })).toEqual({ active: false });
+      expect(await check({ token, max_age: 180 })).toMatchObject({ active: true });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reports tokens for revoked or reassigned tags as inactive', async () => {
+    const token = await tap();
+
+    await revokeTag(UID, OWNER);
+    expect(await check({ token })).toEqual({ active: false });
+
+    await registerTag(UID, 'other@example.com');
+    expect(await check({ token })).toEqual({ active: false });
+  });
+
+  it('reports malformed tokens as inactive and requires a token', async () => {
+    expect(await check({ token: 'abc.def.ghi' })).toEqual({ active: false });
+    // JSON이지만 객체가 아닌 헤더 / 페이로드 (null, 숫자, 배열)
+    for (const token of ['bnVsbA.e30.c2ln', 'MQ.e30.c2ln', 'W10.e30.c2ln', 'e30.bnVsbA.c2ln']) {
+      const response = await introspect(jsonRequest('/api/token/introspect', 'POST', { token }, CLIENT_AUTH));
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ active: false });
+    }
+
+    const response = await introspect(jsonRequest('/api/token/introspect', 'POST', {}, CLIENT_AUTH));
+    expect(response.status).toBe(400);
+  });
+
+  it('requires client authentication for introspection', async () => {
+    const token = await tap();
+    const wrongSecret = { Authorization: `Basic ${Buffer.from('backend:wrong').toString('base64')}` };
+
+    for (const headers of [{}, wrongSecret]) {
+      const response = await introspect(jsonRequest('/api/token/introspect', 'POST', { token }, headers));
+      expect(response.status).toBe(401);
+      expect(response.headers.get('WWW-Authenticate')).toContain('Basic');
+      expect(JSON.stringify(await response.json())).not.toContain(OWNER);
+    }
+  });
+
+  it('rate limits introspection per client', async () => {
+    vi.stubEnv('NTAG424_RATE_LIMIT_INTROSPECT', 'user:2/60');
+    const token = await tap();
+
+    expect(await check({ token })).toMatchObject({ active: true });
+    expect(await check({ token })).toMatchObject({ active: true });
+    const response = await introspect(jsonRequest('/api/token/introspect', 'POST', { token }, CLIENT_AUTH));
+    expect(response.status).toBe(429);
+  });
+
+  it('publishes the signing key set', async () => {
+    const response = await jwks();
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.keys).toHaveLength(1);
+    expect(body.keys[0]).toMatchObject({ kty: 'EC', alg: 'ES256', use: 'sig' });
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET as listTags } from '@/app/api/admin/tags/route';
+import { DELETE, GET, PATCH } from '@/app/api/admin/tags/[uid]/route';
+import { DELETE as resetCounter } from '@/app/api/admin/tags/[uid]/counter/route';
+import { PUT as setRole } from '@/app/api/admin/roles/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { consumeCounter, getMaxCounter, getScanHistory, getTagOwner, registerTag, setTagKeyVersion } from '@/lib/kv';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const ADMIN = 'admin@example.com';
+const OWNER = 'owner@example.com';
+const UID = '04DE5F1EACC040';
+const context = { params: { uid: UID } };
+
+describe('/api/admin', () => {
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_ADMIN_EMAILS', `other-admin@example.com, ${ADMIN.toUpperCase()}`);
+    mockSession(ADMIN);
+    await registerTag(UID, OWNER);
+    await consumeCounter(UID, 61);
+    await setTagKeyVersion(UID, 2);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('lists all tags with owner, counter and key version', async () => {
+    await registerTag('041E3C8A2D6B80', 'someone@example.com');
+    const response = await listTags(jsonRequest('/api/admin/tags', 'GET'));
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toMatchObject({
+      count: 2,
+      tags: [
+        { uid: '041E3C8A2D6B80', owner: 'someone@example.com', counter: 0, keyVersion: null },
+        { uid: UID, owner: OWNER, counter: 61, keyVersion: 2, transfer: null },
+      ],
+    });
+  });
+
+  it('rejects users who are not administrators', async () => {
+    mockSession(OWNER);
+    const response = await GET(jsonRequest(`/api/admin/tags/${UID}`, 'GET'), context);
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('FORBIDDEN');
+
+    mockSession(null);
+    expect((await listTags(jsonRequest('/api/admin/tags', 'GET'))).status).toBe(401);
+  });
+
+  it('accepts administrators granted a stored role', async () => {
+    const granted = await setRole(jsonRequest('/api/admin/roles', 'PUT', { email: OWNER.toUpperCase(), role: 'admin' }));
+    expect(granted.status).toBe(200);
+    expect((await granted.json()).data).toEqual({ email: OWNER, role: 'admin' });
+
+    mockSession(OWNER);
+    expect((await GET(jsonRequest(`/api/admin/tags/${UID}`, 'GET'), context)).status).toBe(200);
+  });
+
+  it('reassigns a tag and records it in the tag history', async () => {
+    const response = await PATCH(jsonRequest(`/api/admin/tags/${UID}`, 'PATCH', { owner: 'new@example.com' }), context);
+    expect(response.status).toBe(200);
+    expect(await getTagOwner(UID)).toBe('new@example.com');
+
+    const { events } = await getScanHistory(UID, 1);
+    expect(events[0]).toMatchObject({ action: 'admin-reassigned', user: ADMIN, target: 'new@example.com' });
+  });
+
+  it('stores a reassigned owner in lowercase so the owner can use the tag', async () => {
+    const response = await PATCH(jsonRequest(`/api/admin/tags/${UID}`, 'PATCH', { owner: 'Alice@Corp.com' }), context);
+    expect((await response.json()).data).toMatchObject({ owner: 'alice@corp.com' });
+    expect(await getTagOwner(UID)).toBe('alice@corp.com');
+  });
+
+  it('force-unregisters a tag', async () => {
+    expect((await DELETE(jsonRequest(`/api/admin/tags/${UID}`, 'DELETE'), context)).status).toBe(200);
+    expect(await getTagOwner(UID)).toBeNull();
+    expect((await GET(jsonRequest(`/api/admin/tags/${UID}`, 'GET'), context)).status).toBe(404);
+  });
+
+  it('resets the counter state', async () => {
+    const response = await resetCounter(jsonRequest(`/api/admin/tags/${UID}/counter`, 'DELETE'), context);
+    expect(await response.json()).toMatchObject({ success: true, data: { previousCounter: 61 } });
+    expect(await getMaxCounter(UID)).toBe(0);
+    expect(await consumeCounter(UID, 61)).toBe(true);
+  });
+});
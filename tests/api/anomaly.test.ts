@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getServerSession } from 'next-auth';
+import { POST } from '@/app/api/verify-tag/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { getRecentAnomalies, getTagRevocation, registerTag } from '@/lib/kv';
+import { createVirtualTag } from '@/lib/virtual-tag';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+import { ZERO_KEY } from '../helpers/vectors';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const OWNER = 'owner@example.com';
+const UID = '04DE5F1EACC040';
+const TEMPLATE = 'https://example.com/?picc_data={picc_data}&cmac={cmac}';
+
+function tapAt(counter: number, ip = '203.0.113.1') {
+  return createVirtualTag({ url: TEMPLATE, keys: ZERO_KEY, uid: UID, counter: counter - 1 })
+    .tap()
+    .then((url) => POST(jsonRequest('/api/verify-tag', 'POST', { url }, { 'x-forwarded-for': ip })));
+}
+
+describe('POST /api/verify-tag anomaly policies', () => {
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_AES_KEY', ZERO_KEY);
+    mockSession(OWNER);
+    await registerTag(UID, OWNER);
+    expect((await tapAt(1)).status).toBe(200);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('warns about a quick tap from another IP by default', async () => {
+    const response = await tapAt(2, '198.51.100.7');
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.anomalies).toMatchObject([{ type: 'velocity', action: 'warn' }]);
+    expect(await getRecentAnomalies(10)).toMatchObject([{ uid: UID, action: 'warn', counter: 2, ip: '198.51.100.7' }]);
+  });
+
+  it('suspends the tag after a counter jump when configured', async () => {
+    vi.stubEnv('NTAG424_ANOMALY_COUNTER_GAP_ACTION', 'suspend');
+    vi.stubEnv('NTAG424_ANOMALY_MAX_COUNTER_GAP', '100');
+
+    const response = await tapAt(500);
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'REVOKED', data: { anomalies: [{ type: 'counter-gap' }] } });
+    expect(await getTagRevocation(UID)).toMatchObject({ revokedBy: 'anomaly-policy' });
+
+    expect((await (await tapAt(501)).json()).code).toBe('REVOKED');
+  });
+
+  it('requires a recent sign-in when configured', async () => {
+    vi.stubEnv('NTAG424_ANOMALY_VELOCITY_ACTION', 'reauth');
+
+    const stale = await tapAt(2, '198.51.100.7');
+    expect(stale.status).toBe(401);
+    expect((await stale.json()).code).toBe('REAUTH_REQUIRED');
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: OWNER, email: OWNER },
+      authTime: Math.floor(Date.now() / 1000),
+      expires: '2099-01-01T00:00:00.000Z',
+    });
+    expect((await tapAt(3, '198.51.100.7')).status).toBe(200);
+  });
+});
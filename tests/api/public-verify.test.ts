@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/public/verify/route';
+import { POST as verifyTag } from '@/app/api/verify-tag/route';
+import { DELETE, GET, PUT } from '@/app/api/admin/products/[uid]/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import {
+  consumeCounter,
+  getMaxCounter,
+  getProductInfo,
+  getScanHistory,
+  getTagRevocation,
+  registerTag,
+  revokeTag,
+  setProductInfo,
+} from '@/lib/kv';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+import { ENCRYPTED_PICC, ZERO_KEY } from '../helpers/vectors';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const ADMIN = 'admin@example.com';
+const OWNER = 'owner@example.com';
+const UID = ENCRYPTED_PICC.uid;
+const PRODUCT = { name: 'Limited Edition Sneaker', description: 'Size 270', attributes: { batch: 'A-17' } };
+
+function check(cmac = ENCRYPTED_PICC.cmac) {
+  return POST(jsonRequest('/api/public/verify', 'POST', { piccData: ENCRYPTED_PICC.piccData, cmac }));
+}
+
+describe('/api/public/verify', () => {
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_AES_KEY', ZERO_KEY);
+    mockSession(null);
+    await setProductInfo(UID, PRODUCT);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reports a genuine tag with its product page without a session', async () => {
+    const response = await check();
+    expect(response.status).toBe(200);
+
+    const body = await response.json();
+    expect(body).toMatchObject({
+      success: true,
+      data: { status: 'genuine', product: PRODUCT, scanCount: ENCRYPTED_PICC.counter },
+    });
+
+    const { events } = await getScanHistory(UID, 1);
+    expect(events[0]).toMatchObject({ success: true, counter: ENCRYPTED_PICC.counter });
+    expect(events[0].user).toBeUndefined();
+  });
+
+  it('does not expose the owner, UID or file data', async () => {
+    await registerTag(UID, OWNER);
+
+    const body = await (await check()).json();
+    expect(Object.keys(body.data).sort()).toEqual(['checkedAt', 'product', 'scanCount', 'status']);
+    expect(JSON.stringify(body)).not.toContain(OWNER);
+    expect(JSON.stringify(body)).not.toContain(UID);
+  });
+
+  it('reports a reused URL as already scanned', async () => {
+    await check();
+
+    const response = await check();
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      success: false,
+      data: { status: 'already-scanned', product: PRODUCT },
+    });
+  });
+
+  it('reports a bad signature as not genuine without product info', async () => {
+    const badCmac = ENCRYPTED_PICC.cmac.slice(0, -1) + (ENCRYPTED_PICC.cmac.endsWith('0') ? '1' : '0');
+
+    const body = await (await check(badCmac)).json();
+    expect(body).toMatchObject({ success: false, data: { status: 'not-genuine' } });
+    expect(body.data.product).toBeUndefined();
+  });
+
+  it('reports a revoked tag', async () => {
+    await revokeTag(UID, OWNER, 'Stolen');
+
+    const body = await (await check()).json();
+    expect(body).toMatchObject({ success: false, data: { status: 'revoked', product: PRODUCT } });
+    expect(JSON.stringify(body)).not.toContain('Stolen');
+  });
+
+  it('does not use the counter of a tag without product info', async () => {
+    await setProductInfo(UID, null);
+    await registerTag(UID, OWNER);
+
+    for (let i = 0; i < 2; i++) {
+      const body = await (await check()).json();
+      expect(body).toMatchObject({ success: true, data: { status: 'genuine' } });
+      expect(body.data.product).toBeUndefined();
+    }
+    expect(await getMaxCounter(UID)).toBe(0);
+
+    mockSession(OWNER);
+    const tap = await verifyTag(jsonRequest('/api/verify-tag', 'POST', { piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac }));
+    expect(tap.status).toBe(200);
+
+    mockSession(null);
+    expect(await (await check()).json()).toMatchObject({ success: false, data: { status: 'already-scanned' } });
+  });
+
+  it('applies the anomaly policy of /api/verify-tag', async () => {
+    vi.stubEnv('NTAG424_ANOMALY_MAX_COUNTER_GAP', '10');
+    vi.stubEnv('NTAG424_ANOMALY_COUNTER_GAP_ACTION', 'suspend');
+    await consumeCounter(UID, 1);
+
+    const body = await (await check()).json();
+    expect(body).toMatchObject({ success: false, data: { status: 'revoked', product: PRODUCT } });
+    expect(await getTagRevocation(UID)).toMatchObject({ revokedBy: 'anomaly-policy' });
+  });
+
+  it('rejects a request without tag parameters', async () => {
+    const response = await POST(jsonRequest('/api/public/verify', 'POST', {}));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_FORMAT' });
+  });
+});
+
+describe('/api/admin/products/[uid]', () => {
+  const context = { params: { uid: UID.toLowerCase() } };
+
+  beforeEach(() => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_ADMIN_EMAILS', ADMIN);
+    mockSession(ADMIN);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('sets, reads and removes product info', async () => {
+    const put = await PUT(jsonRequest(`/api/admin/products/${UID}`, 'PUT', PRODUCT), context);
+    expect(put.status).toBe(200);
+    expect(await getProductInfo(UID)).toEqual(PRODUCT);
+
+    const get = await GET(jsonRequest(`/api/admin/products/${UID}`, 'GET'), context);
+    expect(await get.json()).toMatchObject({ data: { uid: UID, product: PRODUCT } });
+
+    expect((await DELETE(jsonRequest(`/api/admin/products/${UID}`, 'DELETE'), context)).status).toBe(200);
+    expect(await getProductInfo(UID)).toBeNull();
+  });
+
+  it('rejects invalid product info', async () => {
+    const response = await PUT(jsonRequest(`/api/admin/products/${UID}`, 'PUT', { name: 'x', imageUrl: 'javascript:alert(1)' }), context);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'BAD_FORMAT', reason: 'imageUrl must be an http(s) URL' });
+  });
+
+  it('is restricted to admins', async () => {
+    mockSession(OWNER);
+    const response = await PUT(jsonRequest(`/api/admin/products/${UID}`, 'PUT', PRODUCT), context);
+    expect(response.status).toBe(403);
+  });
+});
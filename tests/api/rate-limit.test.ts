@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST as verifyTag } from '@/app/api/verify-tag/route';
+import { POST as register } from '@/app/api/register-tag/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { registerTag } from '@/lib/kv';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+import { ENCRYPTED_PICC, ZERO_KEY } from '../helpers/vectors';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const OWNER = 'owner@example.com';
+
+function forgedTap(user: string, ip: string) {
+  mockSession(user);
+  return verifyTag(
+    jsonRequest('/api/verify-tag', 'POST', { piccData: ENCRYPTED_PICC.piccData, cmac: '0000000000000000' }, { 'x-forwarded-for': ip })
+  );
+}
+
+describe('rate limiting', () => {
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_AES_KEY', ZERO_KEY);
+    await registerTag(ENCRYPTED_PICC.uid, OWNER);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('limits CMAC guesses against one UID across users and IPs', async () => {
+    vi.stubEnv('NTAG424_RATE_LIMIT_VERIFY', 'uid:3/60');
+    for (let i = 0; i < 3; i++) {
+      expect((await forgedTap(`user${i}@example.com`, `203.0.113.${i}`)).status).toBe(400);
+    }
+
+    const response = await forgedTap('user9@example.com', '203.0.113.9');
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('60');
+    expect(await response.json()).toMatchObject({ code: 'RATE_LIMITED', data: { scope: 'uid', limit: 3 } });
+  });
+
+  it('limits a single client before any tag data is processed', async () => {
+    vi.stubEnv('NTAG424_RATE_LIMIT_VERIFY', 'ip:1/60');
+    await forgedTap(OWNER, '203.0.113.1');
+    expect((await forgedTap(OWNER, '203.0.113.1')).status).toBe(429);
+    expect((await forgedTap(OWNER, '203.0.113.2')).status).toBe(400);
+  });
+
+  it('limits registration attempts per user', async () => {
+    vi.stubEnv('NTAG424_RATE_LIMIT_REGISTER', 'user:1/3600');
+    mockSession('someone@example.com');
+    await register(jsonRequest('/api/register-tag', 'POST', { uid: '041E3C8A2D6B80' }));
+
+    const response = await register(jsonRequest('/api/register-tag', 'POST', { uid: '04DE5F1EACC041' }));
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(3590);
+  });
+});
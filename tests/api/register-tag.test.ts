@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET, POST } from '@/app/api/register-tag/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { getTagOwner, registerTag } from '@/lib/kv';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const OWNER = 'owner@example.com';
+const UID = '04DE5F1EACC040';
+
+describe('/api/register-tag', () => {
+  beforeEach(() => {
+    setStore(createMemoryStore());
+    mockSession(OWNER);
+  });
+
+  it('requires a session', async () => {
+    mockSession(null);
+    const response = await POST(jsonRequest('/api/register-tag', 'POST', { uid: UID }));
+    expect(response.status).toBe(401);
+  });
+
+  it('requires a uid', async () => {
+    const response = await POST(jsonRequest('/api/register-tag', 'POST', {}));
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe('BAD_FORMAT');
+  });
+
+  it('rejects a uid that is not 7 bytes of hex', async () => {
+    for (const uid of ['04DE5F1EACC0', '04DE5F1EACC04G', 42]) {
+      const response = await POST(jsonRequest('/api/register-tag', 'POST', { uid }));
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it('normalizes a lowercase uid before looking it up', async () => {
+    const response = await POST(jsonRequest('/api/register-tag', 'POST', { uid: UID.toLowerCase() }));
+    expect(await response.json()).toMatchObject({ success: true, data: { uid: UID } });
+    expect(await getTagOwner(UID)).toBe(OWNER);
+
+    mockSession('other@example.com');
+    const again = await POST(jsonRequest('/api/register-tag', 'POST', { uid: UID.toLowerCase() }));
+    expect(again.status).toBe(403);
+    expect((await again.json()).code).toBe('NOT_OWNER');
+  });
+
+  it('registers an unowned tag', async () => {
+    const response = await POST(jsonRequest('/api/register-tag', 'POST', { uid: UID }));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, data: { uid: UID, owner: OWNER, verified: true } });
+    expect(await getTagOwner(UID)).toBe(OWNER);
+  });
+
+  it('rejects registering the same tag twice', async () => {
+    await registerTag(UID, OWNER);
+    const response = await POST(jsonRequest('/api/register-tag', 'POST', { uid: UID }));
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects a tag owned by another user', async () => {
+    await registerTag(UID, 'other@example.com');
+    const response = await POST(jsonRequest('/api/register-tag', 'POST', { uid: UID }));
+    expect(response.status).toBe(403);
+    expect(await getTagOwner(UID)).toBe('other@example.com');
+  });
+
+  it('stores the owner in lowercase and matches the session case-insensitively', async () => {
+    mockSession('Owner@Example.com');
+    const response = await POST(jsonRequest('/api/register-tag', 'POST', { uid: UID }));
+    expect(await response.json()).toMatchObject({ data: { owner: 'Owner@Example.com', verified: true } });
+    expect(await getTagOwner(UID)).toBe(OWNER);
+
+    const again = await POST(jsonRequest('/api/register-tag', 'POST', { uid: UID }));
+    expect(await again.json()).toMatchObject({ code: 'BAD_FORMAT', reason: 'This tag is already registered to you' });
+
+    const list = await GET(jsonRequest('/api/register-tag', 'GET'));
+    expect((await list.json()).data).toMatchObject({ tags: [{ uid: UID, owner: OWNER }], count: 1 });
+  });
+
+  it("lists the caller's tags", async () => {
+    await registerTag(UID, OWNER);
+    await registerTag('041E3C8A2D6B80', 'other@example.com');
+    const response = await GET(jsonRequest('/api/register-tag', 'GET'));
+    expect(await response.json()).toMatchObject({ success: true, data: { tags: [{ uid: UID, owner: OWNER }], count: 1 } });
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST as verifyTag } from '@/app/api/verify-tag/route';
+import { POST as register } from '@/app/api/register-tag/route';
+import { DELETE, POST } from '@/app/api/tags/[uid]/revocation/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { getScanHistory, registerTag, unregisterTag } from '@/lib/kv';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+import { ENCRYPTED_PICC, ZERO_KEY } from '../helpers/vectors';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const ADMIN = 'admin@example.com';
+const OWNER = 'owner@example.com';
+const UID = ENCRYPTED_PICC.uid;
+const context = { params: { uid: UID } };
+
+function revoke(reason?: string) {
+  return POST(jsonRequest(`/api/tags/${UID}/revocation`, 'POST', { reason }), context);
+}
+
+function reinstate() {
+  return DELETE(jsonRequest(`/api/tags/${UID}/revocation`, 'DELETE'), context);
+}
+
+function tap() {
+  return verifyTag(jsonRequest('/api/verify-tag', 'POST', { piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac }));
+}
+
+describe('/api/tags/[uid]/revocation', () => {
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_AES_KEY', ZERO_KEY);
+    vi.stubEnv('NTAG424_ADMIN_EMAILS', ADMIN);
+    mockSession(OWNER);
+    await registerTag(UID, OWNER);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('denies access to a revoked tag', async () => {
+    expect((await revoke('Lost')).status).toBe(200);
+
+    const response = await tap();
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'REVOKED', reason: 'Lost', data: { uid: UID } });
+
+    const { events } = await getScanHistory(UID, 2);
+    expect(events).toMatchObject([
+      { success: false, code: 'REVOKED', counter: ENCRYPTED_PICC.counter },
+      { action: 'revoked', user: OWNER, reason: 'Lost' },
+    ]);
+  });
+
+  it('grants access again after the owner reinstates the tag', async () => {
+    await revoke();
+    expect((await reinstate()).status).toBe(200);
+    expect((await tap()).status).toBe(200);
+  });
+
+  it('keeps an administrator revocation out of the owner\'s control', async () => {
+    mockSession(ADMIN);
+    await revoke('Suspected clone');
+
+    mockSession(OWNER);
+    const response = await reinstate();
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('FORBIDDEN');
+    expect((await revoke('Found it')).status).toBe(400);
+    expect((await tap()).status).toBe(403);
+  });
+
+  it('lets administrators block a UID before it is registered', async () => {
+    await unregisterTag(UID);
+    mockSession(ADMIN);
+    expect((await revoke('Cloned')).status).toBe(200);
+
+    mockSession(OWNER);
+    const registration = await register(jsonRequest('/api/register-tag', 'POST', { uid: UID }));
+    expect(registration.status).toBe(403);
+    expect((await registration.json()).code).toBe('REVOKED');
+
+    const lowercase = await register(jsonRequest('/api/register-tag', 'POST', { uid: UID.toLowerCase() }));
+    expect((await lowercase.json()).code).toBe('REVOKED');
+
+    const response = await tap();
+    expect((await response.json()).code).toBe('REVOKED');
+  });
+
+  it('only lets the owner or an administrator revoke', async () => {
+    mockSession('other@example.com');
+    expect((await revoke()).status).toBe(403);
+  });
+});
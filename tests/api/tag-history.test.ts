@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST as verifyTag } from '@/app/api/verify-tag/route';
+import { GET } from '@/app/api/tags/[uid]/history/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { completeTagTransfer, registerTag } from '@/lib/kv';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+import { ENCRYPTED_PICC, ZERO_KEY } from '../helpers/vectors';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const OWNER = 'owner@example.com';
+const UID = ENCRYPTED_PICC.uid;
+
+function history(query = '') {
+  return GET(jsonRequest(`/api/tags/${UID}/history${query}`, 'GET'), { params: { uid: UID } });
+}
+
+describe('GET /api/tags/[uid]/history', () => {
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_AES_KEY', ZERO_KEY);
+    mockSession(OWNER);
+    await registerTag(UID, OWNER);
+
+    const tap = { piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac };
+    const headers = { 'x-forwarded-for': '198.51.100.1, 203.0.113.7', 'user-agent': 'vitest' };
+    await verifyTag(jsonRequest('/api/verify-tag', 'POST', tap, headers));
+    await verifyTag(jsonRequest('/api/verify-tag', 'POST', tap, headers));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('lists successful and failed attempts newest first', async () => {
+    const response = await history();
+    expect(response.status).toBe(200);
+
+    const { data } = await response.json();
+    expect(data.events).toMatchObject([
+      { id: 2, success: false, code: 'REPLAY', counter: ENCRYPTED_PICC.counter, user: OWNER },
+      { id: 1, success: true, counter: ENCRYPTED_PICC.counter, ip: '203.0.113.7', userAgent: 'vitest' },
+    ]);
+    expect(data.nextCursor).toBeNull();
+  });
+
+  it('pages with a cursor', async () => {
+    const first = (await (await history('?limit=1')).json()).data;
+    expect(first.events.map((event: { id: number }) => event.id)).toEqual([2]);
+
+    const second = (await (await history(`?limit=1&cursor=${first.nextCursor}`)).json()).data;
+    expect(second.events.map((event: { id: number }) => event.id)).toEqual([1]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('is only available to the owner', async () => {
+    mockSession('other@example.com');
+    const response = await history();
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('NOT_OWNER');
+  });
+
+  it('hides the previous owner\'s events after a transfer', async () => {
+    const recipient = 'recipient@example.com';
+    const now = new Date().toISOString();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 1000);
+    await completeTagTransfer({ uid: UID, from: OWNER, to: recipient, createdAt: now, expiresAt: now });
+
+    mockSession(recipient);
+    const { data } = await (await history()).json();
+    expect(data.events).toEqual([]);
+    expect(data.nextCursor).toBeNull();
+
+    vi.stubEnv('NTAG424_ADMIN_EMAILS', recipient);
+    const admin = (await (await history()).json()).data;
+    expect(admin.events.map((event: { id: number }) => event.id)).toEqual([2, 1]);
+  });
+
+  it('rejects invalid paging parameters', async () => {
+    expect((await history('?limit=0')).status).toBe(400);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST as verifyTag } from '@/app/api/verify-tag/route';
+import { DELETE, GET, POST } from '@/app/api/tags/[uid]/transfer/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { getScanHistory, getTagOwner, registerTag } from '@/lib/kv';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+import { ENCRYPTED_PICC, ZERO_KEY } from '../helpers/vectors';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const OWNER = 'owner@example.com';
+const RECIPIENT = 'recipient@example.com';
+const UID = ENCRYPTED_PICC.uid;
+const context = { params: { uid: UID } };
+
+function startTransfer(to: unknown) {
+  return POST(jsonRequest(`/api/tags/${UID}/transfer`, 'POST', { to }), context);
+}
+
+function tap() {
+  return verifyTag(jsonRequest('/api/verify-tag', 'POST', { piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac }));
+}
+
+describe('/api/tags/[uid]/transfer', () => {
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_AES_KEY', ZERO_KEY);
+    mockSession(OWNER);
+    await registerTag(UID, OWNER);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('transfers the tag when the recipient taps it', async () => {
+    expect((await startTransfer(RECIPIENT)).status).toBe(200);
+
+    mockSession(RECIPIENT);
+    const pending = await (await GET(jsonRequest(`/api/tags/${UID}/transfer`, 'GET'), context)).json();
+    expect(pending.data.transfer).toMatchObject({ from: OWNER, to: RECIPIENT });
+
+    const response = await tap();
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      success: true,
+      message: 'Ownership transferred',
+      data: { uid: UID, user: RECIPIENT, transferred: true },
+    });
+    expect(await getTagOwner(UID)).toBe(RECIPIENT);
+
+    const { events } = await getScanHistory(UID, 10);
+    expect(events).toMatchObject([
+      { action: 'transfer-completed', user: RECIPIENT, counter: ENCRYPTED_PICC.counter },
+      { action: 'transfer-started', user: OWNER, target: RECIPIENT },
+    ]);
+  });
+
+  it('matches the recipient email case-insensitively', async () => {
+    const response = await startTransfer('Recipient@Example.COM');
+    expect((await response.json()).data.transfer).toMatchObject({ to: RECIPIENT });
+
+    mockSession(RECIPIENT);
+    expect((await tap()).status).toBe(200);
+    expect(await getTagOwner(UID)).toBe(RECIPIENT);
+  });
+
+  it('does not transfer after the request expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await startTransfer(RECIPIENT);
+    vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000 + 1);
+
+    mockSession(RECIPIENT);
+    const response = await tap();
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('NOT_OWNER');
+    expect(await getTagOwner(UID)).toBe(OWNER);
+  });
+
+  it('only lets the owner start a transfer', async () => {
+    mockSession(RECIPIENT);
+    expect((await startTransfer(RECIPIENT)).status).toBe(403);
+  });
+
+  it('rejects an invalid recipient', async () => {
+    expect((await startTransfer('not-an-email')).status).toBe(400);
+    expect((await startTransfer(OWNER)).status).toBe(400);
+    expect((await startTransfer(OWNER.toUpperCase())).status).toBe(400);
+  });
+
+  it('lets the recipient decline the transfer', async () => {
+    await startTransfer(RECIPIENT);
+
+    mockSession(RECIPIENT);
+    const response = await DELETE(jsonRequest(`/api/tags/${UID}/transfer`, 'DELETE'), context);
+    expect(response.status).toBe(200);
+
+    expect((await tap()).status).toBe(403);
+    expect(await getTagOwner(UID)).toBe(OWNER);
+  });
+});
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DELETE, GET, PATCH } from '@/app/api/tags/[uid]/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { consumeCounter, getMaxCounter, getTag, getUserTags, registerTag } from '@/lib/kv';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const OWNER = 'owner@example.com';
+const UID = '04DE5F1EACC040';
+const context = { params: { uid: UID } };
+
+function patch(body: unknown) {
+  return PATCH(jsonRequest(`/api/tags/${UID}`, 'PATCH', body), context);
+}
+
+describe('/api/tags/[uid]', () => {
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    mockSession(OWNER);
+    await registerTag(UID, OWNER);
+  });
+
+  it('stores a nickname, description and metadata', async () => {
+    const response = await patch({ nickname: ' Front door ', description: 'Lobby', metadata: { floor: 1, sealed: true } });
+    expect(response.status).toBe(200);
+
+    expect(await getUserTags(OWNER)).toEqual([
+      expect.objectContaining({ uid: UID, owner: OWNER, nickname: 'Front door', description: 'Lobby', metadata: { floor: 1, sealed: true } }),
+    ]);
+
+    const detail = await (await GET(jsonRequest(`/api/tags/${UID}`, 'GET'), context)).json();
+    expect(detail.data).toMatchObject({ uid: UID, nickname: 'Front door', registeredAt: expect.any(String) });
+  });
+
+  it('keeps omitted fields and clears fields set to null', async () => {
+    await patch({ nickname: 'Front door', description: 'Lobby' });
+    await patch({ description: null });
+    expect(await getTag(UID)).toMatchObject({ nickname: 'Front door' });
+    expect((await getTag(UID))?.description).toBeUndefined();
+  });
+
+  it('rejects invalid details', async () => {
+    expect((await patch({ nickname: 42 })).status).toBe(400);
+    expect((await patch({ metadata: { nested: { a: 1 } } })).status).toBe(400);
+    expect((await patch({ owner: 'attacker@example.com' })).status).toBe(400);
+    expect((await getTag(UID))?.owner).toBe(OWNER);
+  });
+
+  it('limits metadata by its UTF-8 size', async () => {
+    // 1,500자이지만 UTF-8로는 4,500바이트 (한글 한 글자 3바이트)
+    expect((await patch({ metadata: { note: '가'.repeat(1500) } })).status).toBe(400);
+    expect((await patch({ metadata: { note: 'a'.repeat(1500) } })).status).toBe(200);
+  });
+
+  it('only lets the owner change or remove the tag', async () => {
+    mockSession('other@example.com');
+    expect((await patch({ nickname: 'Mine' })).status).toBe(403);
+    expect((await DELETE(jsonRequest(`/api/tags/${UID}`, 'DELETE'), context)).status).toBe(403);
+    expect(await getTag(UID)).toMatchObject({ owner: OWNER });
+  });
+
+  it('unregisters the tag but keeps its replay counter', async () => {
+    await patch({ nickname: 'Front door' });
+    await consumeCounter(UID, 5);
+
+    const response = await DELETE(jsonRequest(`/api/tags/${UID}`, 'DELETE'), context);
+    expect(response.status).toBe(200);
+    expect(await getTag(UID)).toBeNull();
+    expect(await getUserTags(OWNER)).toEqual([]);
+    expect(await getMaxCounter(UID)).toBe(5);
+
+    const again = await DELETE(jsonRequest(`/api/tags/${UID}`, 'DELETE'), context);
+    expect(again.status).toBe(404);
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/verify-tag/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { getTagKeyVersion, registerTag } from '@/lib/kv';
+import { parseNTAG424Data } from '@/lib/ntag424';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+import { ENCRYPTED_PICC, PLAIN_MIRROR, ZERO_KEY } from '../helpers/vectors';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const OWNER = 'owner@example.com';
+const OTHER = 'other@example.com';
+
+function verify(body: unknown) {
+  return POST(jsonRequest('/api/verify-tag', 'POST', body));
+}
+
+describe('POST /api/verify-tag', () => {
+  beforeEach(() => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_AES_KEY', ZERO_KEY);
+    mockSession(OWNER);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('requires a session', async () => {
+    mockSession(null);
+    const response = await verify({ piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac });
+    expect(response.status).toBe(401);
+  });
+
+  it('fails when no AES key is configured', async () => {
+    vi.stubEnv('NTAG424_AES_KEY', '');
+    const response = await verify({ piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac });
+    expect(response.status).toBe(500);
+  });
+
+  it('rejects requests without tag parameters', async () => {
+    const response = await verify({});
+    expect(response.status).toBe(400);
+  });
+
+  it('offers registration for an unknown tag', async () => {
+    const response = await verify({ piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac });
+    const body = await response.json();
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ success: false, needsRegistration: true, data: { uid: ENCRYPTED_PICC.uid } });
+  });
+
+  it('grants access to the owner and rejects a replay', async () => {
+    await registerTag(ENCRYPTED_PICC.uid, OWNER);
+
+    const first = await verify({ piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac });
+    expect(first.status).toBe(200);
+    expect(await first.json()).toMatchObject({
+      success: true,
+      data: { uid: ENCRYPTED_PICC.uid, counter: ENCRYPTED_PICC.counter, user: OWNER },
+    });
+
+    const replay = await verify({ piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac });
+    expect(replay.status).toBe(409);
+    expect(await replay.json()).toMatchObject({ success: false, code: 'REPLAY' });
+  });
+
+  it('denies access to a tag owned by someone else', async () => {
+    await registerTag(ENCRYPTED_PICC.uid, OTHER);
+    const response = await verify({ piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac });
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('NOT_OWNER');
+  });
+
+  it('rejects an invalid CMAC', async () => {
+    await registerTag(ENCRYPTED_PICC.uid, OWNER);
+    const response = await verify({ piccData: ENCRYPTED_PICC.piccData, cmac: '0000000000000000' });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'MAC_MISMATCH', reason: 'CMAC verification failed' });
+  });
+
+  it('verifies plain mirroring URLs', async () => {
+    await registerTag(PLAIN_MIRROR.uid, OWNER);
+    const response = await verify({ url: PLAIN_MIRROR.url });
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.counter).toBe(PLAIN_MIRROR.counter);
+  });
+
+  it('uses the UID from the key that verified the CMAC during key rotation', async () => {
+    // 새 MetaRead 키로 복호화해도 형식이 맞는 (다른 UID의) PICC 데이터가 나오는 키 찾기
+    let bogusKey = '';
+    for (let i = 1; !bogusKey; i++) {
+      const key = i.toString(16).padStart(32, '0');
+      const parsed = parseNTAG424Data(ENCRYPTED_PICC.piccData, key);
+      if (parsed?.uid && parsed.uid !== ENCRYPTED_PICC.uid) {
+        bogusKey = key;
+      }
+    }
+    vi.stubEnv(
+      'NTAG424_KEYRING',
+      JSON.stringify([
+        { version: 2, metaReadKey: bogusKey, fileReadKey: bogusKey },
+        { version: 1, metaReadKey: ZERO_KEY, fileReadKey: ZERO_KEY },
+      ])
+    );
+    await registerTag(ENCRYPTED_PICC.uid, OTHER);
+
+    const response = await verify({ piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'NOT_OWNER', data: { uid: ENCRYPTED_PICC.uid } });
+  });
+
+  it('records the key version only after the counter is used', async () => {
+    await registerTag(ENCRYPTED_PICC.uid, OWNER);
+    vi.stubEnv(
+      'NTAG424_KEYRING',
+      JSON.stringify([
+        { version: 2, metaReadKey: ZERO_KEY, fileReadKey: '11'.repeat(16) },
+        { version: 1, metaReadKey: ZERO_KEY, fileReadKey: ZERO_KEY },
+      ])
+    );
+    expect((await verify({ piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac })).status).toBe(200);
+    expect(await getTagKeyVersion(ENCRYPTED_PICC.uid)).toBe(1);
+  });
+});
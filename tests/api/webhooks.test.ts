@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET as listWebhooks, POST as addWebhook } from '@/app/api/admin/webhooks/route';
+import { DELETE as deleteWebhook, GET as getWebhook } from '@/app/api/admin/webhooks/[id]/route';
+import { GET as listDeliveries } from '@/app/api/admin/webhooks/deliveries/route';
+import { GET as runCron } from '@/app/api/cron/webhooks/route';
+import { POST as verifyTag } from '@/app/api/verify-tag/route';
+import { POST as register } from '@/app/api/register-tag/route';
+import { DELETE as unregister } from '@/app/api/tags/[uid]/route';
+import { POST as revoke } from '@/app/api/tags/[uid]/revocation/route';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { registerTag } from '@/lib/kv';
+import { waitForWebhookDeliveries } from '@/lib/webhooks';
+import { jsonRequest } from '../helpers/request';
+import { mockSession } from '../helpers/session';
+import { ENCRYPTED_PICC, ZERO_KEY } from '../helpers/vectors';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+
+const ADMIN = 'admin@example.com';
+const OWNER = 'owner@example.com';
+const UID = ENCRYPTED_PICC.uid;
+const HOOK_URL = 'https://backend.example.com/hooks';
+
+const fetchMock = vi.fn();
+
+async function subscribe(events?: string[]) {
+  mockSession(ADMIN);
+  const response = await addWebhook(jsonRequest('/api/admin/webhooks', 'POST', { url: HOOK_URL, events }));
+  mockSession(OWNER);
+  return (await response.json()).data.webhook;
+}
+
+function tap() {
+  return verifyTag(jsonRequest('/api/verify-tag', 'POST', { piccData: ENCRYPTED_PICC.piccData, cmac: ENCRYPTED_PICC.cmac }));
+}
+
+// fetch로 전송된 이벤트 목록 (백그라운드 전송이 끝난 뒤)
+async function sentEvents() {
+  await waitForWebhookDeliveries();
+  return fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+}
+
+describe('webhooks', () => {
+  beforeEach(() => {
+    setStore(createMemoryStore());
+    vi.stubEnv('NTAG424_AES_KEY', ZERO_KEY);
+    vi.stubEnv('NTAG424_ADMIN_EMAILS', ADMIN);
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+    mockSession(OWNER);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('returns the secret only when a webhook is added', async () => {
+    const webhook = await subscribe();
+    expect(webhook.secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+
+    mockSession(ADMIN);
+    const list = await (await listWebhooks()).json();
+    expect(list.data.webhooks).toEqual([
+      { id: webhook.id, url: HOOK_URL, events: webhook.events, createdAt: webhook.createdAt, createdBy: ADMIN },
+    ]);
+  });
+
+  it('restricts webhook management to admins', async () => {
+    const response = await addWebhook(jsonRequest('/api/admin/webhooks', 'POST', { url: HOOK_URL }));
+    expect(response.status).toBe(403);
+  });
+
+  it('sends access granted and replay events from verify-tag', async () => {
+    await subscribe();
+    await registerTag(UID, OWNER);
+
+    expect((await tap()).status).toBe(200);
+    expect((await tap()).status).toBe(409);
+
+    expect(await sentEvents()).toMatchObject([
+      { type: 'access.granted', data: { uid: UID, user: OWNER, counter: ENCRYPTED_PICC.counter } },
+      { type: 'replay.detected', data: { uid: UID, user: OWNER, code: 'REPLAY' } },
+    ]);
+  });
+
+  it('sends access denied for another user', async () => {
+    await subscribe(['access.denied']);
+    await registerTag(UID, 'someone@example.com');
+
+    expect((await tap()).status).toBe(403);
+    expect(await sentEvents()).toMatchObject([{ type: 'access.denied', data: { code: 'NOT_OWNER', user: OWNER } }]);
+  });
+
+  it('sends registration, revocation and unregistration events', async () => {
+    await subscribe(['tag.registered', 'tag.revoked', 'tag.unregistered']);
+    const context = { params: { uid: UID } };
+
+    expect((await register(jsonRequest('/api/register-tag', 'POST', { uid: UID }))).status).toBe(200);
+    expect((await revoke(jsonRequest(`/api/tags/${UID}/revocation`, 'POST', { reason: 'Lost' }), context)).status).toBe(200);
+    expect((await unregister(jsonRequest(`/api/tags/${UID}`, 'DELETE'), context)).status).toBe(200);
+
+    expect(await sentEvents()).toMatchObject([
+      { type: 'tag.registered', data: { uid: UID, user: OWNER } },
+      { type: 'tag.revoked', data: { uid: UID, user: OWNER, reason: 'Lost' } },
+      { type: 'tag.unregistered', data: { uid: UID, user: OWNER } },
+    ]);
+  });
+
+  it('does not block the response when delivery fails', async () => {
+    const webhook = await subscribe();
+    await registerTag(UID, OWNER);
+    fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    expect((await tap()).status).toBe(200);
+    await waitForWebhookDeliveries();
+
+    mockSession(ADMIN);
+    const body = await (await getWebhook(jsonRequest(`/api/admin/webhooks/${webhook.id}`, 'GET'), { params: { id: webhook.id } })).json();
+    expect(body.data.deliveries).toMatchObject([{ event: 'access.granted', status: 'pending', attempts: 1, error: 'connect ECONNREFUSED' }]);
+  });
+
+  it('does not wait for slow subscribers', async () => {
+    await subscribe();
+    await registerTag(UID, OWNER);
+    let respond!: (response: Response) => void;
+    fetchMock.mockReturnValue(new Promise<Response>((resolve) => (respond = resolve)));
+
+    expect((await tap()).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    respond(new Response(null, { status: 200 }));
+    expect(await sentEvents()).toMatchObject([{ type: 'access.granted' }]);
+  });
+
+  it('retries due deliveries from the cron endpoint', async () => {
+    await subscribe();
+    await registerTag(UID, OWNER);
+    vi.stubEnv('NTAG424_WEBHOOK_RETRY_SECONDS', '0');
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 502 }));
+    await tap();
+    await waitForWebhookDeliveries();
+
+    const denied = await runCron(jsonRequest('/api/cron/webhooks', 'GET', undefined, { Authorization: 'Bearer wrong' }));
+    expect(denied.status).toBe(403);
+
+    const response = await runCron(jsonRequest('/api/cron/webhooks', 'GET', undefined, { Authorization: 'Bearer cron-secret' }));
+    expect(await response.json()).toMatchObject({ success: true, data: { attempted: 1, delivered: 1 } });
+
+    mockSession(ADMIN);
+    const log = await (await listDeliveries(jsonRequest('/api/admin/webhooks/deliveries', 'GET'))).json();
+    expect(log.data.deliveries).toMatchObject([{ status: 'delivered', attempts: 2, responseStatus: 200 }]);
+  });
+
+  it('deletes a webhook', async () => {
+    const webhook = await subscribe();
+    mockSession(ADMIN);
+    const context = { params: { id: webhook.id } };
+
+    expect((await deleteWebhook(jsonRequest(`/api/admin/webhooks/${webhook.id}`, 'DELETE'), context)).status).toBe(200);
+    expect((await getWebhook(jsonRequest(`/api/admin/webhooks/${webhook.id}`, 'GET'), context)).status).toBe(404);
+  });
+});
@@ -0,0 +1,187 @@
+import { createCipheriv, createDecipheriv } from 'crypto';
+import { aesCmac } from 'node-aes-cmac';
+import { jamCRC32 } from '@/lib/ev2';
+
+/**
+ * 개인화 테스트용 가상 NTAG424 (AES 모드 EV2 보안 메시징의 PICC 측)
+ * NDEF 애플리케이션 선택, AuthenticateEV2First, GetCardUID, WriteData,
+ * ChangeFileSettings, ChangeKey만 지원
+ */
+
+// AN12196 AuthenticateEV2First 예제 값
+export const AUTH_VECTOR = {
+  rndA: '13C5DB8A5930439FC3DEF9A4C675360F',
+  rndB: 'B9E2FC789B64BF237CCCAA20EC7E6E48',
+  encRndB: 'A04C124213C186F22399D33AC2A30215',
+  part2: '35C3E05A752E0144BAC0DE51C1F22C56B34408A23D8AEA266CAB947EA8E0118D',
+  ti: '9D00C4DF',
+  encKey: '1309C877509E5A215007FF0ED19CA564',
+  macKey: '4C6626F5E72EA694202139295C7A7FC7',
+};
+
+function cbc(encrypt: boolean, key: Buffer, iv: Buffer, data: Buffer): Buffer {
+  const cipher = encrypt ? createCipheriv('aes-128-cbc', key, iv) : createDecipheriv('aes-128-cbc', key, iv);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+function mact(key: Buffer, input: Buffer): Buffer {
+  const full = aesCmac(key, input, { returnAsBuffer: true }) as Buffer;
+  return Buffer.from([1, 3, 5, 7, 9, 11, 13, 15].map((i) => full[i]));
+}
+
+function ctrLE(counter: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(counter);
+  return buffer;
+}
+
+function rotl(data: Buffer): Buffer {
+  return Buffer.concat([data.subarray(1), data.subarray(0, 1)]);
+}
+
+export interface VirtualPICC {
+  uid: Buffer;
+  keys: Buffer[];
+  keyVersions: number[];
+  ndef: Buffer;
+  fileSettings: Buffer | null;
+  transmit(apdu: Buffer): Promise<Buffer>;
+}
+
+export function createVirtualPICC(uid: string): VirtualPICC {
+  const rndB = Buffer.from(AUTH_VECTOR.rndB, 'hex');
+  const ti = Buffer.from(AUTH_VECTOR.ti, 'hex');
+  let session: { keyNo: number; encKey: Buffer; macKey: Buffer; cmdCtr: number } | null = null;
+  let pendingKeyNo: number | null = null;
+
+  const ok = (data: Buffer = Buffer.alloc(0)) => Buffer.concat([data, Buffer.from([0x91, 0x00])]);
+  const error = (code: number) => Buffer.from([0x91, code]);
+
+  const picc: VirtualPICC = {
+    uid: Buffer.from(uid, 'hex'),
+    keys: Array.from({ length: 5 }, () => Buffer.alloc(16, 0)),
+    keyVersions: [0, 0, 0, 0, 0],
+    ndef: Buffer.alloc(256, 0),
+    fileSettings: null,
+
+    async transmit(apdu) {
+      if (apdu[0] === 0x00 && apdu[1] === 0xa4) {
+        return Buffer.from([0x90, 0x00]);
+      }
+
+      const cmd = apdu[1];
+      const body = apdu.length > 5 ? apdu.subarray(5, 5 + apdu[4]) : Buffer.alloc(0);
+
+      if (cmd === 0x71) {
+        pendingKeyNo = body[0];
+        session = null;
+        return Buffer.concat([cbc(true, picc.keys[pendingKeyNo], Buffer.alloc(16), rndB), Buffer.from([0x91, 0xaf])]);
+      }
+
+      if (cmd === 0xaf && pendingKeyNo !== null) {
+        const key = picc.keys[pendingKeyNo];
+        const decrypted = cbc(false, key, Buffer.alloc(16), body);
+        const rndA = decrypted.subarray(0, 16);
+        if (!decrypted.subarray(16).equals(rotl(rndB))) {
+          return error(0xae);
+        }
+
+        const mixed = Buffer.from([0, 1, 2, 3, 4, 5].map((i) => rndA[2 + i] ^ rndB[i]));
+        const context = Buffer.concat([rndA.subarray(0, 2), mixed, rndB.subarray(6), rndA.subarray(8)]);
+        session = {
+          keyNo: pendingKeyNo,
+          encKey: aesCmac(key, Buffer.concat([Buffer.from('A55A00010080', 'hex'), context]), { returnAsBuffer: true }) as Buffer,
+          macKey: aesCmac(key, Buffer.concat([Buffer.from('5AA500010080', 'hex'), context]), { returnAsBuffer: true }) as Buffer,
+          cmdCtr: 0,
+        };
+        pendingKeyNo = null;
+
+        const response = Buffer.concat([ti, rotl(rndA), Buffer.alloc(12, 0)]);
+        return ok(cbc(true, key, Buffer.alloc(16), response));
+      }
+
+      if (!session) {
+        return error(0xae);
+      }
+      const s = session;
+
+      const iv = (label: string, counter: number) =>
+        cbc(true, s.encKey, Buffer.alloc(16), Buffer.concat([Buffer.from(label, 'hex'), ti, ctrLE(counter), Buffer.alloc(8, 0)]));
+
+      // 명령 MAC 확인 (헤더 길이는 명령별로 다름)
+      const checkMAC = (headerLength: number) => {
+        const payload = body.subarray(0, body.length - 8);
+        const expected = mact(s.macKey, Buffer.concat([Buffer.from([cmd]), ctrLE(s.cmdCtr), ti, payload]));
+        return {
+          valid: expected.equals(body.subarray(body.length - 8)),
+          header: payload.subarray(0, headerLength),
+          data: payload.subarray(headerLength),
+        };
+      };
+
+      const decryptData = (data: Buffer) => {
+        const plain = cbc(false, s.encKey, iv('A55A', s.cmdCtr), data);
+        return plain.subarray(0, plain.lastIndexOf(0x80));
+      };
+
+      const respond = (data: Buffer = Buffer.alloc(0), encrypt = false) => {
+        s.cmdCtr++;
+        let payload = data;
+        if (encrypt) {
+          const padded = Buffer.alloc((Math.floor(data.length / 16) + 1) * 16, 0);
+          data.copy(padded);
+          padded[data.length] = 0x80;
+          payload = cbc(true, s.encKey, iv('5AA5', s.cmdCtr), padded);
+        }
+        const mac = mact(s.macKey, Buffer.concat([Buffer.from([0x00]), ctrLE(s.cmdCtr), ti, payload]));
+        return ok(Buffer.concat([payload, mac]));
+      };
+
+      switch (cmd) {
+        case 0x51: {
+          if (!checkMAC(0).valid) return error(0x1e);
+          return respond(picc.uid, true);
+        }
+        case 0x8d: {
+          // 출하 시 NDEF 파일은 plain 통신
+          const offset = body.readUIntLE(1, 3);
+          const length = body.readUIntLE(4, 3);
+          body.subarray(7, 7 + length).copy(picc.ndef, offset);
+          s.cmdCtr++;
+          return ok();
+        }
+        case 0x5f: {
+          const { valid, data } = checkMAC(1);
+          if (!valid) return error(0x1e);
+          picc.fileSettings = decryptData(data);
+          return respond();
+        }
+        case 0xc4: {
+          const { valid, header, data } = checkMAC(1);
+          if (!valid) return error(0x1e);
+          const keyNo = header[0];
+          const plain = decryptData(data);
+
+          if (keyNo === s.keyNo) {
+            picc.keys[keyNo] = Buffer.from(plain.subarray(0, 16));
+            picc.keyVersions[keyNo] = plain[16];
+            session = null;
+            return ok();
+          }
+
+          const newKey = Buffer.from(plain.subarray(0, 16).map((b, i) => b ^ picc.keys[keyNo][i]));
+          // CRC32NK = JAMCRC(NewKey), 리틀 엔디언
+          if (!plain.subarray(17, 21).equals(jamCRC32(newKey))) return error(0x1e);
+          picc.keys[keyNo] = newKey;
+          picc.keyVersions[keyNo] = plain[16];
+          return respond();
+        }
+        default:
+          return error(0x1c);
+      }
+    },
+  };
+
+  return picc;
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * 라우트 핸들러 호출용 요청 생성
+ */
+export function jsonRequest(
+  path: string,
+  method: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
@@ -0,0 +1,11 @@
+import { vi } from 'vitest';
+import { getServerSession } from 'next-auth';
+
+/**
+ * getServerSession이 반환할 세션 설정 (테스트 파일에서 vi.mock('next-auth') 필요)
+ */
+export function mockSession(email: string | null): void {
+  vi.mocked(getServerSession).mockResolvedValue(
+    email ? { user: { id: email, email }, expires: '2099-01-01T00:00:00.000Z' } : null
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * NXP AN12196 / AN12304 / AN10922 테스트 벡터
+ */
+
+export const ZERO_KEY = '00000000000000000000000000000000';
+
+// AN12196: 암호화된 PICC 데이터 + CMAC (SDMMACInputOffset == SDMMACOffset)
+export const ENCRYPTED_PICC = {
+  piccData: 'EF963FF7828658A599F3041510671E88',
+  cmac: '94EED9EE65337086',
+  uid: '04DE5F1EACC040',
+  counter: 61,
+  sessionMacKey: '3FB5F6E3A807A03D5E3570ACE393776F',
+};
+
+// AN12196: SDMENCFileData 포함 (MAC 입력은 enc 값부터 cmac= 까지)
+export const ENC_FILE_DATA = {
+  url: 'https://choose.url.com/ntag424?picc_data=FD91EC264309878BE6345CBE53BADF40&enc=CEE9A53E3E463EF1F459635736738962&cmac=ECC1E7F6C6C73BF6',
+  uid: '04958CAA5C5E80',
+  counter: 8,
+  fileData: 'xxxxxxxxxxxxxxxx',
+};
+
+// AN12196: 평문 UID / 카운터 미러링
+export const PLAIN_MIRROR = {
+  url: 'https://choose.url.com/ntag424?uid=041E3C8A2D6B80&ctr=000006&cmac=4B00064004B0B3D3',
+  uid: '041E3C8A2D6B80',
+  counter: 6,
+};
+
+// 실제 태그에서 읽은 값 (test-an12196.ts)
+export const REAL_TAG = {
+  piccData: '9AA3D8DF06409B5AA4581429AE8C0611',
+  cmac: 'F9DAF12E0CFCF363',
+  uid: '04623EBA1E1E90',
+  counter: 66,
+};
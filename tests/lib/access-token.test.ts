@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPublicKey, generateKeyPairSync, verify } from 'crypto';
+import { getAccessTokenConfigFromEnv, getJWKS, signAccessToken, verifyAccessToken } from '@/lib/access-token';
+
+const TAP = { uid: '04DE5F1EACC040', counter: 61, user: 'owner@example.com' };
+
+function pem(type: 'ec' | 'rsa' | 'ed25519') {
+  const { privateKey, publicKey } =
+    type === 'ec'
+      ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : type === 'rsa'
+        ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+        : generateKeyPairSync('ed25519');
+  return {
+    privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+    publicKey: publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+  };
+}
+
+function loadConfig() {
+  const config = getAccessTokenConfigFromEnv();
+  if (!config) throw new Error('expected config');
+  return config;
+}
+
+describe('access tokens', () => {
+  const key = pem('ec');
+
+  beforeEach(() => {
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', key.privateKey);
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_ISSUER', 'https://tags.example.com');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('is disabled without a signing key', () => {
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', '');
+    expect(getAccessTokenConfigFromEnv()).toBeNull();
+  });
+
+  it('accepts a key stored on one line', () => {
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', key.privateKey.replace(/\n/g, '\\n'));
+    expect(loadConfig().signingKey.alg).toBe('ES256');
+  });
+
+  it('rejects unsupported keys', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'secp384r1' });
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', privateKey.export({ format: 'pem', type: 'pkcs8' }).toString());
+    expect(() => getAccessTokenConfigFromEnv()).toThrow('P-256');
+  });
+
+  it.each(['ec', 'rsa', 'ed25519'] as const)('signs and verifies %s tokens', (type) => {
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', pem(type).privateKey);
+    const config = loadConfig();
+
+    const { token, claims } = signAccessToken(config, TAP);
+    expect(claims).toMatchObject({ iss: 'https://tags.example.com', sub: TAP.user, uid: TAP.uid, ctr: TAP.counter });
+    expect(claims.exp - claims.iat).toBe(300);
+
+    expect(verifyAccessToken(config, token)).toEqual({ valid: true, claims: JSON.parse(JSON.stringify(claims)) });
+  });
+
+  it('rejects expired, tampered and foreign tokens', () => {
+    const config = loadConfig();
+    const now = Date.now();
+    const { token } = signAccessToken(config, TAP, now);
+
+    expect(verifyAccessToken(config, token, now + 301_000)).toEqual({ valid: false, reason: 'Token expired' });
+
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString()), uid: 'FFFFFFFFFFFFFF' })).toString('base64url');
+    expect(verifyAccessToken(config, `${header}.${forged}.${signature}`)).toEqual({ valid: false, reason: 'Invalid signature' });
+
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', pem('ec').privateKey);
+    expect(verifyAccessToken(loadConfig(), token)).toEqual({ valid: false, reason: 'Unknown signing key' });
+
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', key.privateKey);
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_ISSUER', 'https://other.example.com');
+    expect(verifyAccessToken(loadConfig(), token)).toEqual({ valid: false, reason: 'Issuer mismatch' });
+  });
+
+  it('rejects a token whose header names a different algorithm', () => {
+    const config = loadConfig();
+    const [, payload, signature] = signAccessToken(config, TAP).token.split('.');
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: config.signingKey.kid })).toString('base64url');
+    expect(verifyAccessToken(config, `${header}.${payload}.${signature}`)).toEqual({ valid: false, reason: 'Algorithm mismatch' });
+  });
+
+  it('keeps accepting tokens from a retired key after rotation', () => {
+    const { token } = signAccessToken(loadConfig(), TAP);
+
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_KEY', pem('ed25519').privateKey);
+    vi.stubEnv('NTAG424_ACCESS_TOKEN_RETIRED_KEYS', key.publicKey);
+    const rotated = loadConfig();
+
+    expect(verifyAccessToken(rotated, token).valid).toBe(true);
+    expect(getJWKS(rotated).keys.map((jwk) => jwk.alg)).toEqual(['EdDSA', 'ES256']);
+  });
+
+  it('publishes keys that verify issued tokens', () => {
+    const config = loadConfig();
+    const { token } = signAccessToken(config, TAP);
+    const [header, payload, signature] = token.split('.');
+
+    const jwk = getJWKS(config).keys[0];
+    expect(jwk).toMatchObject({ kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig', kid: config.signingKey.kid });
+    expect(jwk).not.toHaveProperty('d');
+
+    const publicKey = createPublicKey({ key: jwk, format: 'jwk' });
+    expect(
+      verify('sha256', Buffer.from(`${header}.${payload}`), { key: publicKey, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))
+    ).toBe(true);
+  });
+});
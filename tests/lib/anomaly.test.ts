@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { AnomalyPolicy, TapContext, detectAnomalies, resolveAnomalyAction } from '@/lib/anomaly';
+import type { ScanEvent } from '@/lib/store/types';
+
+const POLICY: AnomalyPolicy = {
+  counterGap: { max: 100, action: 'suspend' },
+  velocity: { windowSeconds: 10, action: 'reauth' },
+  reauthMaxAgeSeconds: 300,
+};
+
+const NOW = Date.parse('2026-01-01T00:00:00.000Z');
+
+function scan(secondsAgo: number, fields: Partial<ScanEvent>): ScanEvent {
+  return { id: 1, uid: 'A', timestamp: new Date(NOW - secondsAgo * 1000).toISOString(), success: true, counter: 1, ...fields };
+}
+
+function tap(fields: Partial<TapContext>): TapContext {
+  return { counter: 11, previousCounter: 10, user: 'a@example.com', ip: '203.0.113.1', timestamp: NOW, recentScans: [], ...fields };
+}
+
+describe('detectAnomalies', () => {
+  it('flags a counter jump larger than the policy allows', () => {
+    expect(detectAnomalies(tap({ counter: 110 }), POLICY)).toEqual([]);
+    expect(detectAnomalies(tap({ counter: 111 }), POLICY)).toMatchObject([{ type: 'counter-gap', action: 'suspend' }]);
+  });
+
+  it('ignores the gap on the first recorded tap', () => {
+    expect(detectAnomalies(tap({ counter: 5000, previousCounter: 0 }), POLICY)).toEqual([]);
+  });
+
+  it('flags a quick tap from another user or IP', () => {
+    const recentScans = [scan(3, { user: 'b@example.com', ip: '203.0.113.1' })];
+    expect(detectAnomalies(tap({ recentScans }), POLICY)).toMatchObject([{ type: 'velocity', action: 'reauth' }]);
+
+    const otherIp = [scan(3, { user: 'a@example.com', ip: '198.51.100.7' })];
+    expect(detectAnomalies(tap({ recentScans: otherIp }), POLICY)).toMatchObject([{ type: 'velocity' }]);
+  });
+
+  it('only compares against genuine taps inside the window', () => {
+    const forged = [scan(1, { user: 'b@example.com', success: false, code: 'MAC_MISMATCH' })];
+    const old = [scan(30, { user: 'b@example.com' })];
+    const same = [scan(1, {})];
+    for (const recentScans of [forged, old, same]) {
+      expect(detectAnomalies(tap({ recentScans }), POLICY)).toEqual([]);
+    }
+  });
+
+  it('picks the strongest action', () => {
+    expect(resolveAnomalyAction([])).toBeNull();
+    expect(
+      resolveAnomalyAction([
+        { type: 'velocity', action: 'reauth', detail: '' },
+        { type: 'counter-gap', action: 'suspend', detail: '' },
+        { type: 'velocity', action: 'warn', detail: '' },
+      ])
+    ).toBe('suspend');
+  });
+});
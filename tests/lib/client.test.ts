@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { getClientInfo } from '@/lib/client';
+import { jsonRequest } from '../helpers/request';
+
+describe('getClientInfo', () => {
+  it('ignores addresses the client prepended to x-forwarded-for', () => {
+    const request = jsonRequest('/api/verify-tag', 'POST', undefined, { 'x-forwarded-for': '1.2.3.4, 203.0.113.7' });
+    expect(getClientInfo(request).ip).toBe('203.0.113.7');
+  });
+
+  it('prefers x-real-ip set by the proxy', () => {
+    const request = jsonRequest('/api/verify-tag', 'POST', undefined, {
+      'x-forwarded-for': '1.2.3.4, 10.0.0.1',
+      'x-real-ip': '203.0.113.7',
+    });
+    expect(getClientInfo(request).ip).toBe('203.0.113.7');
+  });
+
+  it('returns undefined without any address header', () => {
+    expect(getClientInfo(jsonRequest('/api/verify-tag', 'POST', undefined, { 'user-agent': 'vitest' }))).toEqual({
+      ip: undefined,
+      userAgent: 'vitest',
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { createCipheriv } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  EV2Session,
+  buildAuthenticateEV2First,
+  buildAuthenticateEV2FirstPart2,
+  buildSecureCommand,
+  completeAuthenticateEV2First,
+  deriveSessionKeys,
+  jamCRC32,
+  verifySecureResponse,
+} from '@/lib/ev2';
+import { buildChangeFileSettings, buildChangeKey } from '@/lib/personalize';
+import { AUTH_VECTOR } from '../helpers/picc';
+
+const KEY = Buffer.alloc(16, 0);
+
+function encrypt(data: Buffer): Buffer {
+  const cipher = createCipheriv('aes-128-cbc', KEY, Buffer.alloc(16, 0));
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+function authenticate(): EV2Session {
+  const challenge = buildAuthenticateEV2FirstPart2(
+    0,
+    KEY,
+    Buffer.from(AUTH_VECTOR.encRndB + '91AF', 'hex'),
+    Buffer.from(AUTH_VECTOR.rndA, 'hex')
+  );
+  const rndA = Buffer.from(AUTH_VECTOR.rndA, 'hex');
+  const response = encrypt(Buffer.concat([
+    Buffer.from(AUTH_VECTOR.ti, 'hex'),
+    rndA.subarray(1),
+    rndA.subarray(0, 1),
+    Buffer.alloc(12, 0),
+  ]));
+  return completeAuthenticateEV2First(challenge, Buffer.concat([response, Buffer.from('9100', 'hex')]));
+}
+
+describe('AuthenticateEV2First', () => {
+  it('builds the Part1 command', () => {
+    expect(buildAuthenticateEV2First(0).toString('hex').toUpperCase()).toBe('9071000002000000');
+  });
+
+  it('answers the AN12196 challenge with E(RndA || RndB\')', () => {
+    const challenge = buildAuthenticateEV2FirstPart2(
+      0,
+      KEY,
+      Buffer.from(AUTH_VECTOR.encRndB + '91AF', 'hex'),
+      Buffer.from(AUTH_VECTOR.rndA, 'hex')
+    );
+    expect(challenge.rndB.toString('hex').toUpperCase()).toBe(AUTH_VECTOR.rndB);
+    expect(challenge.apdu.toString('hex').toUpperCase()).toBe(`90AF000020${AUTH_VECTOR.part2}00`);
+  });
+
+  it('derives the AN12196 session keys', () => {
+    const session = authenticate();
+    expect(session.ti.toString('hex').toUpperCase()).toBe(AUTH_VECTOR.ti);
+    expect(session.encKey.toString('hex').toUpperCase()).toBe(AUTH_VECTOR.encKey);
+    expect(session.macKey.toString('hex').toUpperCase()).toBe(AUTH_VECTOR.macKey);
+    expect(session.cmdCtr).toBe(0);
+  });
+
+  it('rejects a response that does not prove knowledge of RndA', () => {
+    const challenge = buildAuthenticateEV2FirstPart2(0, KEY, Buffer.from(AUTH_VECTOR.encRndB + '91AF', 'hex'));
+    const response = Buffer.concat([encrypt(Buffer.alloc(32, 0)), Buffer.from('9100', 'hex')]);
+    expect(() => completeAuthenticateEV2First(challenge, response)).toThrow('RndA mismatch');
+  });
+});
+
+describe('secure messaging', () => {
+  it('appends an 8-byte MAC and pads encrypted data to a full block', () => {
+    const session = authenticate();
+    const apdu = buildSecureCommand(session, 0x5f, Buffer.from([0x02]), Buffer.alloc(15, 0x11), 'full');
+    // CLA INS P1 P2 Lc || FileNo || 16바이트 암호문 || MACt || Le
+    expect(apdu[4]).toBe(1 + 16 + 8);
+    expect(apdu.length).toBe(5 + 25 + 1);
+  });
+
+  it('rejects a response with an invalid MAC and keeps the counter', () => {
+    const session = authenticate();
+    expect(() => verifySecureResponse(session, Buffer.from('00000000000000009100', 'hex'), 'mac')).toThrow(
+      'Response MAC verification failed'
+    );
+    expect(session.cmdCtr).toBe(0);
+  });
+
+  it('surfaces PICC error statuses', () => {
+    const session = authenticate();
+    expect(() => verifySecureResponse(session, Buffer.from('919D', 'hex'), 'mac')).toThrow('919D');
+  });
+});
+
+describe('AN12196 worked examples', () => {
+  // ChangeKey 예제의 세션 (인증 예제와 다른 세션)
+  const CHANGE_KEY_SESSION = {
+    ti: '7614281A',
+    encKey: '4CF3CB41A22583A61E89B158D252FC53',
+    macKey: '5529860B2FC5FB6154B7F28361D30BF9',
+  };
+  const NEW_KEY = Buffer.from('5004BF991F408672B1EF00F08F9E8647', 'hex');
+
+  function changeKeySession(cmdCtr: number): EV2Session {
+    return {
+      keyNo: 0,
+      ti: Buffer.from(CHANGE_KEY_SESSION.ti, 'hex'),
+      encKey: Buffer.from(CHANGE_KEY_SESSION.encKey, 'hex'),
+      macKey: Buffer.from(CHANGE_KEY_SESSION.macKey, 'hex'),
+      cmdCtr,
+    };
+  }
+
+  it('derives the session keys from RndA and RndB', () => {
+    const { encKey, macKey } = deriveSessionKeys(KEY, Buffer.from(AUTH_VECTOR.rndA, 'hex'), Buffer.from(AUTH_VECTOR.rndB, 'hex'));
+    expect(encKey.toString('hex').toUpperCase()).toBe(AUTH_VECTOR.encKey);
+    expect(macKey.toString('hex').toUpperCase()).toBe(AUTH_VECTOR.macKey);
+  });
+
+  it('encrypts ChangeFileSettings for the SDM example', () => {
+    const session = authenticate();
+    session.cmdCtr = 1;
+    // CmdData = 4000E0C1F121200000430000430000
+    const apdu = buildChangeFileSettings(session, 0x02, {
+      commMode: 'plain',
+      accessRights: { read: 0xe, write: 0x0, readWrite: 0x0, change: 0x0 },
+      sdm: {
+        uidMirror: true,
+        counterMirror: true,
+        metaReadKey: 0x2,
+        fileReadKey: 0x1,
+        counterRetrievalKey: 0x1,
+        piccDataOffset: 0x20,
+        macInputOffset: 0x43,
+        macOffset: 0x43,
+      },
+    });
+    expect(apdu.toString('hex').toUpperCase()).toBe(
+      '905F0000190261B6D97903566E84C3AE5274467E89EAD799B7C1A0EF7A0400'
+    );
+  });
+
+  it('encrypts ChangeKey for the authenticated key', () => {
+    const apdu = buildChangeKey(changeKeySession(3), { keyNo: 0, key: NEW_KEY, version: 1 });
+    expect(apdu.toString('hex').toUpperCase()).toBe(
+      '90C400002900C0EB4DEEFEDDF0B513A03A95A75491818580503190D4D05053FF75668A01D6FDA6610234BDED643200'
+    );
+  });
+
+  it('appends the JAMCRC of the new key when changing another key', () => {
+    // CRC-32/JAMCRC 검사값 ("123456789" → 0x340BC6D9, 리틀 엔디언)
+    expect(jamCRC32(Buffer.from('123456789')).toString('hex').toUpperCase()).toBe('D9C60B34');
+    expect(jamCRC32(NEW_KEY).toString('hex').toUpperCase()).toBe('ACFE7441');
+
+    // 첫 블록은 (NewKey XOR 0 키)라서 위 예제와 같고, 두 번째 블록에 KeyVer || CRC32NK
+    const apdu = buildChangeKey(changeKeySession(3), { keyNo: 2, key: NEW_KEY, version: 1 });
+    expect(apdu.toString('hex').toUpperCase()).toBe(
+      '90C400002902C0EB4DEEFEDDF0B513A03A95A754918163845E45146D69C9F760D90AAF3F39537AB7EFCB8BB0F5E900'
+    );
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createDiversifiedKeyProvider, createStaticKeyProvider, diversifyKey } from '@/lib/keys';
+
+describe('diversifyKey', () => {
+  it('matches the AN10922 AES-128 example', () => {
+    const key = diversifyKey(
+      Buffer.from('00112233445566778899AABBCCDDEEFF', 'hex'),
+      '04782E21801D80',
+      Buffer.from('3042F54E585020416275', 'hex')
+    );
+    expect(key.toString('hex').toUpperCase()).toBe('A8DD63A3B89D54B37CA802473FDA9175');
+  });
+});
+
+describe('key providers', () => {
+  it('uses the same keys for every tag in static mode', async () => {
+    const provider = createStaticKeyProvider('00'.repeat(16), '11'.repeat(16));
+    expect((await provider.getMetaReadKey()).toString('hex')).toBe('00'.repeat(16));
+    expect((await provider.getFileReadKey('04DE5F1EACC040')).toString('hex')).toBe('11'.repeat(16));
+  });
+
+  it('derives a different file read key per UID', async () => {
+    const provider = createDiversifiedKeyProvider('00'.repeat(16), '22'.repeat(16));
+    const a = await provider.getFileReadKey('04DE5F1EACC040');
+    const b = await provider.getFileReadKey('041E3C8A2D6B80');
+    expect(a.equals(b)).toBe(false);
+  });
+
+  it('rejects keys that are not 16 bytes', () => {
+    expect(() => createStaticKeyProvider('0011')).toThrow();
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { lricbDecrypt, lricbEncrypt, lrpCmac } from '@/lib/lrp';
+
+// NXP AN12304 테스트 벡터
+describe('LRP', () => {
+  it('encrypts with LRICB', () => {
+    const key = Buffer.from('E0C4935FF0C254CD2CEF8FDDC32460CF', 'hex');
+    const plaintext = Buffer.from('012D7F1653CAF6503C6AB0C1010E8CB080000000000000000000000000000000', 'hex');
+    const ciphertext = lricbEncrypt(key, 0, Buffer.from('C3315DBF', 'hex'), plaintext);
+    expect(ciphertext.toString('hex').toUpperCase()).toBe(
+      'FCBBACAA4F29182464F99DE41085266F480E863E487BAAF687B43ED1ECE0D623'
+    );
+    expect(lricbDecrypt(key, 0, Buffer.from('C3315DBF', 'hex'), ciphertext)).toEqual(plaintext);
+  });
+
+  it('computes CMAC_LRP', () => {
+    const key = Buffer.from('8195088CE6C393708EBBE6C7914ECB0B', 'hex');
+    const mac = lrpCmac(key, 0, Buffer.from('BBD5B85772C7', 'hex'));
+    expect(mac.toString('hex').toUpperCase()).toBe('AD8595E0B49C5C0DB18E77355F5AAFF6');
+  });
+
+  it('rejects LRICB input that is not block aligned', () => {
+    expect(() => lricbDecrypt(Buffer.alloc(16), 0, Buffer.alloc(8), Buffer.alloc(15))).toThrow();
+  });
+});
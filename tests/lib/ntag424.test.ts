@@ -0,0 +1,273 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { aesCmac } from 'node-aes-cmac';
+import {
+  generateSDMSessionKey,
+  generateSUNMessage,
+  truncateMAC,
+  parseNTAG424Data,
+  parseNTAG424URL,
+  verifyNTAG424,
+} from '@/lib/ntag424';
+import { createKeyring, createStaticKeyProvider } from '@/lib/keys';
+import { consumeCounter, getTagKeyVersion, setTagKeyVersion } from '@/lib/kv';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { createVirtualTag } from '@/lib/virtual-tag';
+import { ENCRYPTED_PICC, ENC_FILE_DATA, PLAIN_MIRROR, REAL_TAG, ZERO_KEY } from '../helpers/vectors';
+
+describe('generateSDMSessionKey', () => {
+  it('derives KSesSDMFileReadMAC from SV2 (AN12196)', () => {
+    const key = generateSDMSessionKey(Buffer.from(ZERO_KEY, 'hex'), ENCRYPTED_PICC.uid, ENCRYPTED_PICC.counter);
+    expect(key.toString('hex').toUpperCase()).toBe(ENCRYPTED_PICC.sessionMacKey);
+  });
+});
+
+describe('truncateMAC', () => {
+  it('keeps the odd-indexed bytes of the full CMAC', () => {
+    const full = Buffer.from('000102030405060708090A0B0C0D0E0F', 'hex');
+    expect(truncateMAC(full).toString('hex')).toBe('01030507090b0d0f');
+  });
+
+  it('produces the AN12196 MACt for a zero-length input', () => {
+    const sessionKey = Buffer.from(ENCRYPTED_PICC.sessionMacKey, 'hex');
+    const full = aesCmac(sessionKey, Buffer.alloc(0), { returnAsBuffer: true }) as Buffer;
+    expect(truncateMAC(full).toString('hex').toUpperCase()).toBe(ENCRYPTED_PICC.cmac);
+  });
+});
+
+describe('parseNTAG424Data', () => {
+  it('decrypts PICC data and decodes PICCDataTag', () => {
+    expect(parseNTAG424Data(ENCRYPTED_PICC.piccData, ZERO_KEY)).toEqual({
+      tag: 0xc7,
+      uidMirrored: true,
+      counterMirrored: true,
+      uid: ENCRYPTED_PICC.uid,
+      counter: ENCRYPTED_PICC.counter,
+    });
+  });
+
+  it('rejects PICC data decrypted with the wrong key', () => {
+    expect(parseNTAG424Data(ENCRYPTED_PICC.piccData, 'FF'.repeat(16))).toBeNull();
+  });
+
+  it('rejects data shorter than one block', () => {
+    expect(parseNTAG424Data('C704DE5F1EACC040', ZERO_KEY)).toBeNull();
+  });
+});
+
+describe('parseNTAG424URL', () => {
+  it('parses picc_data and cmac parameters', () => {
+    const url = `https://example.com/?picc_data=${ENCRYPTED_PICC.piccData}&cmac=${ENCRYPTED_PICC.cmac}`;
+    expect(parseNTAG424URL(url, ZERO_KEY)).toMatchObject({
+      piccData: ENCRYPTED_PICC.piccData,
+      cmac: ENCRYPTED_PICC.cmac,
+      uid: ENCRYPTED_PICC.uid,
+      counter: ENCRYPTED_PICC.counter,
+    });
+  });
+
+  it('accepts the short p / c aliases', () => {
+    const url = `https://example.com/?p=${ENCRYPTED_PICC.piccData}&c=${ENCRYPTED_PICC.cmac}`;
+    expect(parseNTAG424URL(url, ZERO_KEY)?.uid).toBe(ENCRYPTED_PICC.uid);
+  });
+
+  it('treats enc next to picc_data as SDMENCFileData', () => {
+    const parsed = parseNTAG424URL(ENC_FILE_DATA.url, ZERO_KEY);
+    expect(parsed?.encFileData).toBe('CEE9A53E3E463EF1F459635736738962');
+    expect(parsed?.uid).toBe(ENC_FILE_DATA.uid);
+  });
+
+  it('parses plain UID / counter mirroring', () => {
+    expect(parseNTAG424URL(PLAIN_MIRROR.url)).toMatchObject({
+      mirroring: 'plain',
+      uid: PLAIN_MIRROR.uid,
+      counter: PLAIN_MIRROR.counter,
+    });
+  });
+
+  it('returns null without a CMAC or for malformed URLs', () => {
+    expect(parseNTAG424URL(`https://example.com/?picc_data=${ENCRYPTED_PICC.piccData}`)).toBeNull();
+    expect(parseNTAG424URL('not a url')).toBeNull();
+  });
+});
+
+describe('verifyNTAG424', () => {
+  beforeEach(() => {
+    setStore(createMemoryStore());
+  });
+
+  it('verifies the AN12196 encrypted PICC vector', async () => {
+    const result = await verifyNTAG424(ENCRYPTED_PICC, ZERO_KEY, true);
+    expect(result).toMatchObject({ valid: true, uid: ENCRYPTED_PICC.uid, counter: ENCRYPTED_PICC.counter });
+  });
+
+  it('verifies a real tag reading', async () => {
+    const result = await verifyNTAG424(REAL_TAG, ZERO_KEY, true);
+    expect(result).toMatchObject({ valid: true, uid: REAL_TAG.uid, counter: REAL_TAG.counter });
+  });
+
+  it('rejects a tampered CMAC', async () => {
+    const result = await verifyNTAG424({ ...ENCRYPTED_PICC, cmac: '0000000000000000' }, ZERO_KEY, true);
+    expect(result).toMatchObject({ valid: false, code: 'MAC_MISMATCH', reason: 'CMAC verification failed' });
+  });
+
+  it('decrypts SDMENCFileData with a MAC over the enc parameter', async () => {
+    const data = parseNTAG424URL(ENC_FILE_DATA.url, ZERO_KEY)!;
+    const result = await verifyNTAG424(data, ZERO_KEY, true, { layout: { type: 'param', param: 'enc' } });
+    expect(result).toMatchObject({ valid: true, fileData: Buffer.from(ENC_FILE_DATA.fileData).toString('hex') });
+  });
+
+  it('verifies plain mirroring', async () => {
+    const result = await verifyNTAG424(parseNTAG424URL(PLAIN_MIRROR.url)!, ZERO_KEY, true);
+    expect(result).toMatchObject({ valid: true, uid: PLAIN_MIRROR.uid, counter: PLAIN_MIRROR.counter });
+  });
+
+  it('rejects a replayed counter', async () => {
+    expect((await verifyNTAG424(ENCRYPTED_PICC, ZERO_KEY)).valid).toBe(true);
+    const replay = await verifyNTAG424(ENCRYPTED_PICC, ZERO_KEY);
+    expect(replay).toMatchObject({
+      valid: false,
+      code: 'REPLAY',
+      reason: 'Replay attack detected - counter already used or invalid',
+    });
+  });
+
+  it('distinguishes a counter regression from a replay', async () => {
+    const tag = createVirtualTag({ url: 'https://example.com/?picc_data={picc_data}&cmac={cmac}', keys: ZERO_KEY });
+    const older = parseNTAG424URL(await tag.tap())!;
+    const newer = parseNTAG424URL(await tag.tap())!;
+
+    expect((await verifyNTAG424(newer, ZERO_KEY)).valid).toBe(true);
+    expect(await verifyNTAG424(older, ZERO_KEY)).toMatchObject({ valid: false, code: 'COUNTER_REGRESSION', counter: 1 });
+  });
+});
+
+describe('verifyNTAG424 with a keyring', () => {
+  const ROTATED_KEY = '11'.repeat(16);
+
+  beforeEach(() => {
+    setStore(createMemoryStore());
+  });
+
+  it('falls back to an older key version and records it for the tag', async () => {
+    const keyring = createKeyring([
+      { version: 2, provider: createStaticKeyProvider(ZERO_KEY, ROTATED_KEY) },
+      { version: 1, provider: createStaticKeyProvider(ZERO_KEY), retired: true },
+    ]);
+
+    const result = await verifyNTAG424(ENCRYPTED_PICC, keyring);
+    expect(result).toMatchObject({ valid: true, uid: ENCRYPTED_PICC.uid, keyVersion: 1, keyRetired: true });
+    expect(await getTagKeyVersion(ENCRYPTED_PICC.uid)).toBe(1);
+  });
+
+  it('does not record the key version for a replayed or unchecked URL', async () => {
+    const keyring = createKeyring([
+      { version: 2, provider: createStaticKeyProvider(ZERO_KEY, ROTATED_KEY) },
+      { version: 1, provider: createStaticKeyProvider(ZERO_KEY) },
+    ]);
+
+    expect(await verifyNTAG424(ENCRYPTED_PICC, keyring, true)).toMatchObject({ valid: true, keyVersion: 1 });
+    expect(await getTagKeyVersion(ENCRYPTED_PICC.uid)).toBeNull();
+
+    await setTagKeyVersion(ENCRYPTED_PICC.uid, 2);
+    await consumeCounter(ENCRYPTED_PICC.uid, ENCRYPTED_PICC.counter);
+    expect(await verifyNTAG424(ENCRYPTED_PICC, keyring)).toMatchObject({ valid: false, code: 'REPLAY' });
+    expect(await getTagKeyVersion(ENCRYPTED_PICC.uid)).toBe(2);
+  });
+
+  it('reports the CMAC failure when no key version matches', async () => {
+    const keyring = createKeyring([
+      { version: 2, provider: createStaticKeyProvider(ZERO_KEY, ROTATED_KEY) },
+      { version: 1, provider: createStaticKeyProvider(ROTATED_KEY) },
+    ]);
+
+    const result = await verifyNTAG424(ENCRYPTED_PICC, keyring, true);
+    expect(result).toMatchObject({ valid: false, reason: 'CMAC verification failed', uid: ENCRYPTED_PICC.uid });
+    expect(await getTagKeyVersion(ENCRYPTED_PICC.uid)).toBeNull();
+  });
+});
+
+describe('generateSUNMessage', () => {
+  beforeEach(() => {
+    setStore(createMemoryStore());
+  });
+
+  it('reproduces the AN12196 CMAC for an empty MAC input', async () => {
+    const url = await generateSUNMessage({
+      url: 'https://choose.url.com/ntag424?picc_data={picc_data}&cmac={cmac}',
+      uid: ENCRYPTED_PICC.uid,
+      counter: ENCRYPTED_PICC.counter,
+      keys: ZERO_KEY,
+    });
+    expect(url).toMatch(new RegExp(`cmac=${ENCRYPTED_PICC.cmac}$`));
+    expect(parseNTAG424Data(parseNTAG424URL(url)!.piccData!, ZERO_KEY)).toMatchObject({
+      uid: ENCRYPTED_PICC.uid,
+      counter: ENCRYPTED_PICC.counter,
+    });
+  });
+
+  it('reproduces the AN12196 plain mirroring URL', async () => {
+    const url = await generateSUNMessage({
+      url: 'https://choose.url.com/ntag424?uid={uid}&ctr={ctr}&cmac={cmac}',
+      uid: PLAIN_MIRROR.uid,
+      counter: PLAIN_MIRROR.counter,
+      keys: ZERO_KEY,
+    });
+    expect(url).toBe(PLAIN_MIRROR.url);
+  });
+
+  it('round-trips ENC file data and TT status through verifyNTAG424', async () => {
+    const url = await generateSUNMessage({
+      url: 'https://example.com/?picc_data={picc_data}&enc={enc}&tt={tt}&cmac={cmac}',
+      uid: ENCRYPTED_PICC.uid,
+      counter: 7,
+      keys: ZERO_KEY,
+      macInputFrom: 'enc',
+      fileData: Buffer.from('0123456789abcdef'),
+      ttStatus: 'CC',
+    });
+
+    const result = await verifyNTAG424(parseNTAG424URL(url, ZERO_KEY)!, ZERO_KEY, true, {
+      layout: { type: 'param', param: 'enc' },
+    });
+    expect(result).toMatchObject({
+      valid: true,
+      uid: ENCRYPTED_PICC.uid,
+      counter: 7,
+      fileData: Buffer.from('0123456789abcdef').toString('hex'),
+      tamper: { raw: 'CC', authenticated: true },
+    });
+  });
+
+  it('round-trips LRP mode messages through verifyNTAG424', async () => {
+    const url = await generateSUNMessage({
+      url: 'https://example.com/?picc_data={picc_data}&enc={enc}&cmac={cmac}',
+      uid: ENCRYPTED_PICC.uid,
+      counter: 42,
+      keys: ZERO_KEY,
+      cryptoMode: 'lrp',
+      macInputFrom: 'picc_data',
+      fileData: Buffer.alloc(32, 0x41),
+    });
+
+    const data = parseNTAG424URL(url, ZERO_KEY)!;
+    expect(data.piccData).toHaveLength(48);
+
+    const result = await verifyNTAG424(data, ZERO_KEY, true, { layout: { type: 'param', param: 'picc_data' } });
+    expect(result).toMatchObject({
+      valid: true,
+      cryptoMode: 'lrp',
+      uid: ENCRYPTED_PICC.uid,
+      counter: 42,
+      fileData: '41'.repeat(32),
+    });
+  });
+
+  it('rejects templates without a CMAC placeholder', async () => {
+    await expect(generateSUNMessage({
+      url: 'https://example.com/?picc_data={picc_data}',
+      uid: ENCRYPTED_PICC.uid,
+      counter: 1,
+      keys: ZERO_KEY,
+    })).rejects.toThrow('{cmac}');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createDiversifiedKeyProvider } from '@/lib/keys';
+import {
+  buildNDEFURLTemplate,
+  buildSDMFileSettings,
+  encodeFileSettings,
+  provisionTag,
+} from '@/lib/personalize';
+import { createVirtualPICC } from '../helpers/picc';
+
+const META_READ_KEY = '11'.repeat(16);
+const FILE_READ_MASTER_KEY = '22'.repeat(16);
+
+describe('buildNDEFURLTemplate', () => {
+  it('places the URL body at file offset 7 behind the https:// prefix code', () => {
+    const template = buildNDEFURLTemplate('https://choose.url.com/ntag424?e={picc_data}&c={cmac}');
+    expect(template.file.subarray(0, 7).toString('hex').toUpperCase()).toBe('0051D1014D5504');
+    expect(template.offsets).toEqual({ picc_data: 0x20, cmac: 0x43 });
+    expect(template.macInputOffset).toBe(0x43);
+  });
+
+  it('starts the MAC input at the requested placeholder', () => {
+    const template = buildNDEFURLTemplate('https://example.com/?picc_data={picc_data}&enc={enc}&cmac={cmac}', {
+      encLength: 32,
+      macInputFrom: 'enc',
+    });
+    expect(template.macInputOffset).toBe(template.offsets.enc);
+    expect(template.encLength).toBe(32);
+  });
+
+  it('requires a length for {enc}', () => {
+    expect(() => buildNDEFURLTemplate('https://example.com/?enc={enc}&cmac={cmac}')).toThrow('encLength');
+  });
+});
+
+describe('encodeFileSettings', () => {
+  it('matches the AN12196 ChangeFileSettings data', () => {
+    const template = buildNDEFURLTemplate('https://choose.url.com/ntag424?e={picc_data}&c={cmac}');
+    const settings = buildSDMFileSettings(template, { metaReadKeyNo: 2, fileReadKeyNo: 1 });
+    expect(encodeFileSettings(settings).toString('hex').toUpperCase()).toBe('4000E0C1F121200000430000430000');
+  });
+
+  it('uses separate UID / counter offsets for plain mirroring', () => {
+    const template = buildNDEFURLTemplate('https://example.com/?uid={uid}&ctr={ctr}&cmac={cmac}');
+    const settings = buildSDMFileSettings(template, { metaReadKeyNo: 1, fileReadKeyNo: 2 });
+    expect(settings.sdm).toMatchObject({ metaReadKey: 0xe, uidOffset: 7 + 17, counterOffset: 7 + 17 + 14 + 5 });
+    expect(encodeFileSettings(settings).subarray(0, 6).toString('hex').toUpperCase()).toBe('4000E0C1F2E2');
+  });
+});
+
+describe('provisionTag', () => {
+  it('writes the template, SDM settings and SDM keys to the tag', async () => {
+    const picc = createVirtualPICC('04DE5F1EACC040');
+    const keyProvider = createDiversifiedKeyProvider(META_READ_KEY, FILE_READ_MASTER_KEY);
+    const newMasterKey = Buffer.alloc(16, 0x33);
+
+    const result = await provisionTag(picc.transmit, {
+      authKey: Buffer.alloc(16, 0),
+      url: 'https://example.com/tap?picc_data={picc_data}&cmac={cmac}',
+      keyProvider,
+      keyVersion: 2,
+      newMasterKey,
+    });
+
+    expect(result.uid).toBe('04DE5F1EACC040');
+    expect(picc.ndef.subarray(0, result.template.file.length).equals(result.template.file)).toBe(true);
+    expect(picc.fileSettings?.equals(encodeFileSettings(result.settings))).toBe(true);
+    expect(picc.keys[1].toString('hex')).toBe(META_READ_KEY);
+    expect(picc.keys[2].equals(await keyProvider.getFileReadKey('04DE5F1EACC040'))).toBe(true);
+    expect(picc.keys[0].equals(newMasterKey)).toBe(true);
+    expect(picc.keyVersions).toEqual([2, 2, 2, 0, 0]);
+  });
+
+  it('fails when the tag does not have the expected master key', async () => {
+    const picc = createVirtualPICC('04DE5F1EACC040');
+    await expect(provisionTag(picc.transmit, {
+      authKey: Buffer.alloc(16, 0x44),
+      url: 'https://example.com/tap?picc_data={picc_data}&cmac={cmac}',
+      keyProvider: createDiversifiedKeyProvider(META_READ_KEY, FILE_READ_MASTER_KEY),
+    })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkRateLimit, getRateLimitRulesFromEnv, parseRateLimitRules } from '@/lib/rate-limit';
+import { createMemoryStore, setStore } from '@/lib/store';
+
+describe('parseRateLimitRules', () => {
+  it('parses scope:limit/window lists', () => {
+    expect(parseRateLimitRules('user:30/60, uid:5/3600')).toEqual([
+      { scope: 'user', limit: 30, windowSeconds: 60 },
+      { scope: 'uid', limit: 5, windowSeconds: 3600 },
+    ]);
+  });
+
+  it('rejects malformed rules', () => {
+    expect(() => parseRateLimitRules('session:1/60')).toThrow('Invalid rate limit rule');
+    expect(() => parseRateLimitRules('user:0/60')).toThrow('Invalid rate limit rule');
+  });
+
+  it('can be turned off per route', () => {
+    vi.stubEnv('NTAG424_RATE_LIMIT_REGISTER', 'off');
+    expect(getRateLimitRulesFromEnv('register')).toEqual([]);
+    expect(getRateLimitRulesFromEnv('verify').length).toBeGreaterThan(0);
+    vi.unstubAllEnvs();
+  });
+});
+
+describe('checkRateLimit', () => {
+  beforeEach(() => {
+    setStore(createMemoryStore());
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.parse('2026-01-01T00:00:00.000Z'));
+    vi.stubEnv('NTAG424_RATE_LIMIT_VERIFY', 'user:2/60,ip:10/60');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('slides the window instead of resetting it', async () => {
+    const identities = { user: 'a@example.com', ip: '203.0.113.1' };
+    expect(await checkRateLimit('verify', identities)).toEqual({ allowed: true });
+    vi.advanceTimersByTime(30_000);
+    expect(await checkRateLimit('verify', identities)).toEqual({ allowed: true });
+
+    expect(await checkRateLimit('verify', identities)).toEqual({
+      allowed: false,
+      scope: 'user',
+      limit: 2,
+      retryAfterSeconds: 30,
+    });
+
+    // 첫 요청이 윈도를 벗어나면 한 번 더 허용
+    vi.advanceTimersByTime(30_001);
+    expect((await checkRateLimit('verify', identities)).allowed).toBe(true);
+    expect((await checkRateLimit('verify', identities)).allowed).toBe(false);
+  });
+
+  it('tracks each identity separately', async () => {
+    await checkRateLimit('verify', { user: 'a@example.com' });
+    await checkRateLimit('verify', { user: 'a@example.com' });
+    expect((await checkRateLimit('verify', { user: 'a@example.com' })).allowed).toBe(false);
+    expect((await checkRateLimit('verify', { user: 'b@example.com' })).allowed).toBe(true);
+    expect((await checkRateLimit('register', { user: 'a@example.com' })).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { randomBytes } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFileStore, createMemoryStore, createVercelKVStore } from '@/lib/store';
+import type { TagStore } from '@/lib/store';
+
+/**
+ * 모든 저장소가 같은 규칙을 따르는지 확인
+ * vercel-kv는 KV_REST_API_URL / KV_REST_API_TOKEN이 설정된 경우만 실행
+ */
+
+interface Backend {
+  name: string;
+  enabled: boolean;
+  create(): { store: TagStore; cleanup?: () => void };
+}
+
+const BACKENDS: Backend[] = [
+  { name: 'memory', enabled: true, create: () => ({ store: createMemoryStore() }) },
+  {
+    name: 'file',
+    enabled: true,
+    create: () => {
+      const dir = mkdtempSync(join(tmpdir(), 'ntag424-store-'));
+      return { store: createFileStore(join(dir, 'store.json')), cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+    },
+  },
+  {
+    name: 'vercel-kv',
+    enabled: !!process.env.KV_REST_API_URL && !!process.env.KV_REST_API_TOKEN,
+    create: () => ({ store: createVercelKVStore() }),
+  },
+];
+
+describe.each(BACKENDS)('$name store contract', (backend) => {
+  let cleanup: (() => void) | undefined;
+
+  function setup(): { store: TagStore; uid: string } {
+    const created = backend.create();
+    cleanup = created.cleanup;
+    // 실제 KV에서도 다른 데이터와 겹치지 않도록 임의의 UID 사용
+    return { store: created.store, uid: `TEST${randomBytes(5).toString('hex').toUpperCase()}` };
+  }
+
+  afterEach(() => {
+    cleanup?.();
+    cleanup = undefined;
+  });
+
+  it.runIf(backend.enabled)('accepts the first counter seen for a UID, including 0', async () => {
+    const { store, uid } = setup();
+    expect(await store.getMaxCounter(uid)).toBe(0);
+    expect(await store.consumeCounter(uid, 0)).toBe(true);
+    expect(await store.consumeCounter(uid, 0)).toBe(false);
+    expect(await store.consumeCounter(uid, 1)).toBe(true);
+    await store.resetCounter(uid);
+  });
+
+  it.runIf(backend.enabled)('only advances the counter forward', async () => {
+    const { store, uid } = setup();
+    expect(await store.consumeCounter(uid, 5)).toBe(true);
+    expect(await store.consumeCounter(uid, 5)).toBe(false);
+    expect(await store.consumeCounter(uid, 4)).toBe(false);
+    expect(await store.consumeCounter(uid, 6)).toBe(true);
+    expect(await store.getMaxCounter(uid)).toBe(6);
+    await store.resetCounter(uid);
+  });
+
+  it.runIf(backend.enabled)('accepts exactly one of several concurrent taps with the same counter', async () => {
+    const { store, uid } = setup();
+    const results = await Promise.all([1, 2, 3].map(() => store.consumeCounter(uid, 10)));
+    expect(results.filter(Boolean)).toHaveLength(1);
+    await store.resetCounter(uid);
+  });
+
+  it.runIf(backend.enabled)('accepts any counter again after a reset', async () => {
+    const { store, uid } = setup();
+    await store.consumeCounter(uid, 61);
+    await store.resetCounter(uid);
+    expect(await store.getMaxCounter(uid)).toBe(0);
+    expect(await store.consumeCounter(uid, 1)).toBe(true);
+    await store.resetCounter(uid);
+  });
+});
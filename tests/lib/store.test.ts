@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFileStore, createMemoryStore } from '@/lib/store';
+import { SCAN_HISTORY_LIMIT } from '@/lib/store/types';
+
+describe('memory store', () => {
+  it('keeps the user tag index in sync with ownership changes', async () => {
+    const store = createMemoryStore();
+    await store.setTagOwner('A', 'alice@example.com');
+    await store.setTagOwner('B', 'alice@example.com');
+    await store.setTagOwner('A', 'bob@example.com');
+
+    expect(await store.listUserTags('alice@example.com')).toEqual(['B']);
+    expect(await store.listUserTags('bob@example.com')).toEqual(['A']);
+
+    await store.deleteTag('B');
+    expect(await store.listUserTags('alice@example.com')).toEqual([]);
+  });
+
+  it('records the SDM key version per tag', async () => {
+    const store = createMemoryStore();
+    expect(await store.getTagKeyVersion('A')).toBeNull();
+    await store.setTagKeyVersion('A', 1);
+    await store.setTagKeyVersion('B', 2);
+    await store.setTagKeyVersion('A', 2);
+    expect(await store.listTagKeyVersions()).toEqual([
+      { uid: 'A', version: 2 },
+      { uid: 'B', version: 2 },
+    ]);
+  });
+
+  it('keeps only the most recent scan events per tag', async () => {
+    const store = createMemoryStore();
+    for (let i = 0; i < SCAN_HISTORY_LIMIT + 5; i++) {
+      await store.appendScanEvent({ uid: 'A', timestamp: new Date(0).toISOString(), success: true, counter: i });
+    }
+
+    const page = await store.listScanEvents('A', { limit: SCAN_HISTORY_LIMIT + 10 });
+    expect(page.events).toHaveLength(SCAN_HISTORY_LIMIT);
+    expect(page.events[0].id).toBe(SCAN_HISTORY_LIMIT + 5);
+    expect(page.nextCursor).toBeNull();
+  });
+});
+
+describe('file store', () => {
+  it('persists every change from concurrent writes', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ntag424-store-'));
+    const filePath = join(dir, 'store.json');
+    try {
+      const store = createFileStore(filePath);
+      await Promise.all([
+        store.setTagOwner('A', 'alice@example.com'),
+        store.consumeCounter('A', 5),
+        ...[1, 2, 3].map((counter) =>
+          store.appendScanEvent({ uid: 'A', timestamp: new Date(0).toISOString(), success: true, counter })
+        ),
+        store.setTagOwner('B', 'bob@example.com'),
+      ]);
+
+      const saved = JSON.parse(readFileSync(filePath, 'utf8'));
+      expect(saved.tags).toEqual({ A: 'alice@example.com', B: 'bob@example.com' });
+      expect(saved.counters).toEqual({ A: 5 });
+      expect(saved.scans.A).toHaveLength(3);
+
+      const reloaded = createFileStore(filePath);
+      expect(await reloaded.getMaxCounter('A')).toBe(5);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('shares counters between processes using the same file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ntag424-store-'));
+    const filePath = join(dir, 'store.json');
+    try {
+      // 서버 프로세스 두 개 (각자 저장소 인스턴스)
+      const first = createFileStore(filePath);
+      const second = createFileStore(filePath);
+
+      const results = await Promise.all([
+        first.consumeCounter('A', 10),
+        second.consumeCounter('A', 10),
+        first.consumeCounter('A', 10),
+        second.consumeCounter('A', 10),
+      ]);
+      expect(results.filter(Boolean)).toHaveLength(1);
+
+      await first.setTagOwner('B', 'bob@example.com');
+      expect(await second.getTagOwner('B')).toBe('bob@example.com');
+      expect(await second.consumeCounter('A', 10)).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('removes a stale lock left by a crashed process', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ntag424-store-'));
+    const filePath = join(dir, 'store.json');
+    try {
+      writeFileSync(`${filePath}.lock`, '12345');
+      const old = new Date(Date.now() - 60_000);
+      utimesSync(`${filePath}.lock`, old, old);
+
+      const store = createFileStore(filePath);
+      expect(await store.consumeCounter('A', 1)).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createDiversifiedKeyProvider } from '@/lib/keys';
+import { parseNTAG424URL, verifyNTAG424 } from '@/lib/ntag424';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { createVirtualTag } from '@/lib/virtual-tag';
+
+const TEMPLATE = 'https://example.com/?picc_data={picc_data}&cmac={cmac}';
+
+describe('createVirtualTag', () => {
+  beforeEach(() => {
+    setStore(createMemoryStore());
+  });
+
+  it('increments the counter on every tap', async () => {
+    const tag = createVirtualTag({ url: TEMPLATE, keys: '00'.repeat(16), counter: 10 });
+    expect(tag.uid).toMatch(/^04[0-9A-F]{12}$/);
+
+    const first = parseNTAG424URL(await tag.tap(), '00'.repeat(16))!;
+    const second = parseNTAG424URL(await tag.tap(), '00'.repeat(16))!;
+    expect([first.counter, second.counter]).toEqual([11, 12]);
+    expect(tag.counter).toBe(12);
+  });
+
+  it('produces taps that pass replay protection once each', async () => {
+    const keys = createDiversifiedKeyProvider('11'.repeat(16), '22'.repeat(16));
+    const tag = createVirtualTag({ url: TEMPLATE, keys, uid: '04DE5F1EACC040' });
+
+    const first = parseNTAG424URL(await tag.tap())!;
+    const second = parseNTAG424URL(await tag.tap())!;
+
+    expect((await verifyNTAG424(first, keys)).valid).toBe(true);
+    expect((await verifyNTAG424(second, keys)).valid).toBe(true);
+    expect((await verifyNTAG424(first, keys)).valid).toBe(false);
+  });
+});
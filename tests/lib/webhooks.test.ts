@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import { waitUntil } from '@vercel/functions';
+import { createMemoryStore, setStore } from '@/lib/store';
+import { deleteWebhook, getWebhookDeliveries, saveWebhook } from '@/lib/kv';
+import {
+  dispatchWebhookEvent,
+  getWebhookEventType,
+  parseWebhookRequest,
+  retryDueWebhookDeliveries,
+  signWebhookPayload,
+  waitForWebhookDeliveries,
+  WEBHOOK_EVENT_TYPES,
+} from '@/lib/webhooks';
+import type { WebhookSubscription } from '@/lib/store/types';
+
+vi.mock('@vercel/functions', () => ({ waitUntil: vi.fn() }));
+
+const WEBHOOK: WebhookSubscription = {
+  id: 'hook-1',
+  url: 'https://backend.example.com/hooks',
+  secret: 'whsec_test',
+  events: ['access.granted', 'tag.registered'],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  createdBy: 'admin@example.com',
+};
+
+const TAP = { uid: '04DE5F1EACC040', timestamp: '2024-01-01T00:00:00.000Z' };
+
+describe('getWebhookEventType', () => {
+  it('maps scan outcomes and audit actions to events', () => {
+    expect(getWebhookEventType({ ...TAP, success: true })).toBe('access.granted');
+    expect(getWebhookEventType({ ...TAP, success: false, code: 'NOT_OWNER' })).toBe('access.denied');
+    expect(getWebhookEventType({ ...TAP, success: false, code: 'REPLAY' })).toBe('replay.detected');
+    expect(getWebhookEventType({ ...TAP, success: false, code: 'COUNTER_REGRESSION' })).toBe('replay.detected');
+    expect(getWebhookEventType({ ...TAP, success: true, action: 'registered' })).toBe('tag.registered');
+    expect(getWebhookEventType({ ...TAP, success: true, action: 'admin-unregistered' })).toBe('tag.unregistered');
+    expect(getWebhookEventType({ ...TAP, success: true, action: 'revoked' })).toBe('tag.revoked');
+    expect(getWebhookEventType({ ...TAP, success: true, action: 'transfer-started' })).toBeNull();
+  });
+});
+
+describe('parseWebhookRequest', () => {
+  it('subscribes to every event by default', () => {
+    expect(parseWebhookRequest({ url: 'https://backend.example.com/hooks' })).toEqual({
+      url: 'https://backend.example.com/hooks',
+      events: WEBHOOK_EVENT_TYPES,
+    });
+  });
+
+  it('rejects bad URLs and unknown events', () => {
+    expect(parseWebhookRequest({ url: 'ftp://backend.example.com' })).toEqual({ error: 'url must be an http(s) URL' });
+    expect(parseWebhookRequest({ url: 'https://backend.example.com', events: ['tag.exploded'] })).toHaveProperty('error');
+    expect(parseWebhookRequest({ url: 'https://backend.example.com', events: [] })).toHaveProperty('error');
+  });
+});
+
+describe('webhook delivery', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(async () => {
+    setStore(createMemoryStore());
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('NTAG424_WEBHOOK_RETRY_SECONDS', '30,120');
+    fetchMock.mockReset();
+    await saveWebhook(WEBHOOK);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('sends a signed payload to subscribed webhooks only', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    expect(await dispatchWebhookEvent('access.denied', { uid: TAP.uid })).toEqual([]);
+    const [delivery] = await dispatchWebhookEvent('access.granted', { uid: TAP.uid });
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 0 });
+
+    await waitForWebhookDeliveries();
+    expect(await getWebhookDeliveries(10)).toMatchObject([{ id: delivery.id, status: 'delivered', attempts: 1, responseStatus: 204 }]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(WEBHOOK.url);
+    expect(init.headers).toMatchObject({ 'X-NTAG424-Event': 'access.granted', 'X-NTAG424-Delivery': delivery.id });
+    expect(JSON.parse(init.body)).toMatchObject({ type: 'access.granted', data: { uid: TAP.uid } });
+
+    const [, t, v1] = init.headers['X-NTAG424-Signature'].match(/^t=(\d+),v1=([0-9a-f]{64})$/);
+    expect(v1).toBe(createHmac('sha256', WEBHOOK.secret).update(`${t}.${init.body}`).digest('hex'));
+    expect(signWebhookPayload(WEBHOOK.secret, Number(t), init.body)).toBe(init.headers['X-NTAG424-Signature']);
+  });
+
+  it('retries failed deliveries with backoff until they give up', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+    const start = Date.now();
+
+    await dispatchWebhookEvent('tag.registered', { uid: TAP.uid });
+    await waitForWebhookDeliveries();
+    const [first] = await getWebhookDeliveries(1);
+    expect(first).toMatchObject({ status: 'pending', attempts: 1, error: 'HTTP 500' });
+    expect(Date.parse(first.nextAttemptAt!) - start).toBeGreaterThanOrEqual(30_000);
+
+    // 아직 재시도 시각 전
+    expect(await retryDueWebhookDeliveries(50, start + 1_000)).toEqual([]);
+
+    fetchMock.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    const [second] = await retryDueWebhookDeliveries(50, Date.parse(first.nextAttemptAt!));
+    expect(second).toMatchObject({ status: 'pending', attempts: 2, error: 'connect ECONNREFUSED' });
+    expect(Date.parse(second.nextAttemptAt!) - Date.parse(second.lastAttemptAt!)).toBe(120_000);
+
+    const [third] = await retryDueWebhookDeliveries(50, Date.parse(second.nextAttemptAt!));
+    expect(third).toMatchObject({ status: 'failed', attempts: 3 });
+    expect(third.nextAttemptAt).toBeUndefined();
+
+    // 같은 본문과 전송 id로 재시도
+    const bodies = fetchMock.mock.calls.map(([, init]) => init.body);
+    expect(new Set(bodies).size).toBe(1);
+    expect(await getWebhookDeliveries(10)).toEqual([third]);
+  });
+
+  it('schedules the first retry after the background attempt', async () => {
+    let respond!: (response: Response) => void;
+    fetchMock.mockReturnValue(new Promise<Response>((resolve) => (respond = resolve)));
+
+    const [delivery] = await dispatchWebhookEvent('access.granted', { uid: TAP.uid });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    // 서버리스 함수가 응답 후에도 첫 시도를 마칠 수 있도록 등록
+    expect(waitUntil).toHaveBeenCalledWith(expect.any(Promise));
+    expect(Date.parse(delivery.nextAttemptAt!) - Date.parse(delivery.createdAt)).toBe(30_000);
+
+    // 첫 시도가 진행 중이면 스케줄러가 같은 전송을 다시 보내지 않음
+    expect(await retryDueWebhookDeliveries(50, Date.parse(delivery.createdAt))).toEqual([]);
+
+    respond(new Response(null, { status: 200 }));
+    await waitForWebhookDeliveries();
+    expect(await getWebhookDeliveries(1)).toMatchObject([{ status: 'delivered', attempts: 1 }]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks pending deliveries failed when the subscription is deleted', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+    await dispatchWebhookEvent('access.granted', { uid: TAP.uid });
+    await waitForWebhookDeliveries();
+    const [delivery] = await getWebhookDeliveries(1);
+    await deleteWebhook(WEBHOOK.id);
+
+    const [retried] = await retryDueWebhookDeliveries(50, Date.parse(delivery.nextAttemptAt!));
+    expect(retried).toMatchObject({ status: 'failed', error: 'Webhook subscription deleted' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
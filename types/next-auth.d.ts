@@ -7,7 +7,9 @@ declare module "next-auth" {
       name?: string | null;
       email?: string | null;
       image?: string | null;
+      isAdmin?: boolean;
     };
+    authTime?: number;
   }
 
   interface User {
@@ -18,5 +20,7 @@ declare module "next-auth" {
 declare module "next-auth/jwt" {
   interface JWT {
     id?: string;
+    authTime?: number;
+    isAdmin?: boolean;
   }
 }
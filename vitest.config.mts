@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'url';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+  },
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
+});